@@ -1,40 +1,276 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { AnimalResults } from './components/AnimalResults';
 import { ChatSidebar } from './components/ChatSidebar';
 import { VoiceModal } from './components/VoiceModal';
-import { identifyAnimal } from './services/geminiService';
-import { AppState, AnimalDetails } from './types';
+import { SightingJournal } from './components/SightingJournal';
+import { SettingsPanel } from './components/SettingsPanel';
+import { CompareView } from './components/CompareView';
+import { QuizView } from './components/QuizView';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { useI18n } from './components/I18nProvider';
+import { detectAnimals, identifyAnimal } from './services/geminiService';
+import { AnimalDetails, AnimalDetection, AppState, AssistantSettings, ChatMessage, IdentificationOutcome, IdentificationResult, ImageSizeStats, PhotoMetadata, QuizResult, Sighting } from './types';
+import { createThumbnail, formatBytes, parseDataUrl } from './services/imagePreprocessing';
+import { saveSighting } from './services/journalStore';
+import { describeSkipped, exportSightings } from './services/darwinCore';
+import { loadAssistantSettings, resolveAssistantSettings, saveAssistantSettings } from './services/assistantSettings';
+import { MessageKey } from './services/i18n';
+import { InvalidModelResponseError } from './services/responseValidation';
+import { isAbortError, isRetryableError, RequestTimeoutError } from './services/requestPolicy';
+
+const UNIDENTIFIED_COPY: Record<Exclude<IdentificationOutcome, IdentificationOutcome.ANIMAL_FOUND>, { title: MessageKey; hint: MessageKey }> = {
+  [IdentificationOutcome.NO_ANIMAL]: {
+    title: 'unidentified.noAnimal.title',
+    hint: 'unidentified.noAnimal.hint',
+  },
+  [IdentificationOutcome.POOR_IMAGE_QUALITY]: {
+    title: 'unidentified.poorQuality.title',
+    hint: 'unidentified.poorQuality.hint',
+  },
+  [IdentificationOutcome.MULTIPLE_ANIMALS]: {
+    title: 'unidentified.multiple.title',
+    hint: 'unidentified.multiple.hint',
+  },
+};
+
+type SightingMeta = Pick<Sighting, 'id' | 'createdAt' | 'imageDataUrl' | 'thumbnailDataUrl'>;
 
 function App() {
+  const { locale, t } = useI18n();
   const [appState, setAppState] = useState<AppState>(AppState.UPLOAD);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [animalData, setAnimalData] = useState<AnimalDetails | null>(null);
+  const [identification, setIdentification] = useState<IdentificationResult | null>(null);
+  const [selectedCandidate, setSelectedCandidate] = useState(0);
+  const [detections, setDetections] = useState<AnimalDetection[]>([]);
+  const [selectedDetection, setSelectedDetection] = useState(0);
+  const [isDetecting, setIsDetecting] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isVoiceOpen, setIsVoiceOpen] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [uploadStats, setUploadStats] = useState<ImageSizeStats | null>(null);
+  const [photoMetadata, setPhotoMetadata] = useState<PhotoMetadata>({});
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [sightingMeta, setSightingMeta] = useState<SightingMeta | null>(null);
+  const [quizResults, setQuizResults] = useState<QuizResult[]>([]);
+  const [assistantSettings, setAssistantSettings] = useState<AssistantSettings>(loadAssistantSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // What chat and voice actually use: the answer language follows the locale unless chosen
+  const effectiveSettings = useMemo(() => resolveAssistantSettings(assistantSettings, locale), [assistantSettings, locale]);
+
+  const lastUploadRef = useRef<{ base64: string; mimeType: string; metadata: PhotoMetadata } | null>(null);
+  // Aborts whichever identify or detect request is in flight
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  // In detection mode the candidates come from the selected box instead of the whole photo
+  const activeCandidates = detections.length > 0
+    ? detections[selectedDetection]?.candidates ?? []
+    : identification?.candidates ?? [];
+  const animalData = activeCandidates[selectedCandidate] ?? null;
+  const unidentifiedCopy = identification && identification.outcome !== IdentificationOutcome.ANIMAL_FOUND
+    ? UNIDENTIFIED_COPY[identification.outcome]
+    : null;
+  // Everything else this photo turned up, for the compare picker
+  const compareSuggestions = useMemo(() => {
+    const animals: AnimalDetails[] = [...(identification?.candidates ?? []), ...detections.flatMap(detection => detection.candidates.slice(0, 1))];
+    return animals.filter((animal, idx) =>
+      animal.scientificName !== animalData?.scientificName
+      && animals.findIndex(other => other.scientificName === animal.scientificName) === idx);
+  }, [identification, detections, animalData]);
+  const animalQuizResults = quizResults.filter(result => result.scientificName === animalData?.scientificName);
+  const chatPhoto = useMemo(() => (selectedImage ? parseDataUrl(selectedImage) : undefined), [selectedImage]);
+
+  const currentSighting: Sighting | null = sightingMeta && animalData
+    ? { ...sightingMeta, animal: animalData, candidates: activeCandidates, messages, metadata: photoMetadata, quizResults }
+    : null;
+
+  // Keep the journal entry in sync with the chosen animal, the chat transcript and quiz scores
+  useEffect(() => {
+    if (!currentSighting) return;
+    saveSighting(currentSighting).catch(() => {
+      // Already logged; the journal is best-effort and must not break the results screen
+    });
+  }, [sightingMeta, animalData, messages, photoMetadata, quizResults]);
+
+  const startSighting = async (imageDataUrl: string) => {
+    const upload = lastUploadRef.current;
+    const thumbnailDataUrl = await createThumbnail(imageDataUrl).catch(() => imageDataUrl);
+    // Ignore if the user moved on to another photo in the meantime
+    if (lastUploadRef.current !== upload) return;
+    setSightingMeta({ id: crypto.randomUUID(), createdAt: Date.now(), imageDataUrl, thumbnailDataUrl });
+  };
 
-  const handleImageSelected = async (base64: string, mimeType: string) => {
-    setSelectedImage(`data:${mimeType};base64,${base64}`);
+  const startAnalysis = (): AbortSignal => {
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    return controller.signal;
+  };
+
+  const describeAnalysisError = (err: unknown): string => {
+    if (err instanceof InvalidModelResponseError) return t('error.invalidResponse');
+    if (err instanceof RequestTimeoutError) return t('error.timeout');
+    if (isRetryableError(err)) return t('error.busy');
+    return t('error.identify');
+  };
+
+  /**
+   * Identifies a photo. With `refresh`, any cached answer is skipped and the
+   * current journal entry is updated instead of a new one being started.
+   */
+  const handleImageSelected = async (base64: string, mimeType: string, sizeStats?: ImageSizeStats, metadata: PhotoMetadata = {}, refresh = false) => {
+    const imageDataUrl = `data:${mimeType};base64,${base64}`;
+    const signal = startAnalysis();
+    const existingSighting = refresh ? sightingMeta : null;
+    lastUploadRef.current = { base64, mimeType, metadata };
+    setUploadStats(sizeStats ?? null);
+    setPhotoMetadata(metadata);
+    setSelectedImage(imageDataUrl);
     setAppState(AppState.ANALYZING);
     setErrorMsg(null);
+    setDetections([]);
+    setSelectedDetection(0);
+    setSightingMeta(existingSighting);
+    // Re-analyzing keeps the sighting's saved chat and quiz scores; a new photo starts clean
+    if (!existingSighting) {
+      setMessages([]);
+      setQuizResults([]);
+    }
 
     try {
       // 1. Identify Animal
-      const data = await identifyAnimal(base64, mimeType);
-      setAnimalData(data);
-      setAppState(AppState.RESULTS);
+      const result = await identifyAnimal(base64, mimeType, { metadata, locale, signal, refresh });
+      if (signal.aborted) return;
+      setIdentification(result);
+      setSelectedCandidate(0);
+
+      // 2. Several animals: switch to detection mode so each one gets a box
+      if (result.outcome === IdentificationOutcome.MULTIPLE_ANIMALS) {
+        const found = await detectAnimals(base64, mimeType, { metadata, locale, signal, refresh }).catch(() => []);
+        if (signal.aborted) return;
+        if (found.length > 0) {
+          setDetections(found);
+          setAppState(AppState.RESULTS);
+          if (!existingSighting) startSighting(imageDataUrl);
+          return;
+        }
+      }
+
+      if (result.outcome === IdentificationOutcome.ANIMAL_FOUND) {
+        setAppState(AppState.RESULTS);
+        if (!existingSighting) startSighting(imageDataUrl);
+      } else {
+        setAppState(AppState.UNIDENTIFIED);
+      }
     } catch (err) {
+      // Cancelled, or replaced by a newer upload
+      if (isAbortError(err)) return;
       console.error(err);
-      setErrorMsg("Failed to identify the animal. Please ensure the image is clear and try again.");
+      setErrorMsg(describeAnalysisError(err));
       setAppState(AppState.ERROR);
     }
   };
 
+  const handleSelectCandidate = (index: number) => {
+    // Switching candidates starts a fresh conversation about the new animal
+    setSelectedCandidate(index);
+    setMessages([]);
+    setIsChatOpen(false);
+    setIsVoiceOpen(false);
+  };
+
+  const handleSelectDetection = (index: number) => {
+    setSelectedDetection(index);
+    handleSelectCandidate(0);
+  };
+
+  const handleDetectAnimals = async () => {
+    if (!lastUploadRef.current) return;
+    const { base64, mimeType, metadata } = lastUploadRef.current;
+    const signal = startAnalysis();
+    setIsDetecting(true);
+    try {
+      const found = await detectAnimals(base64, mimeType, { metadata, locale, signal });
+      if (found.length > 0) {
+        setDetections(found);
+        handleSelectDetection(0);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) console.error(err);
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleReanalyze = () => {
+    if (!lastUploadRef.current) return;
+    const { base64, mimeType, metadata } = lastUploadRef.current;
+    handleImageSelected(base64, mimeType, uploadStats ?? undefined, metadata, true);
+  };
+
+  const handleOpenSighting = (sighting: Sighting) => {
+    const matches = sighting.imageDataUrl.match(/^data:(.+);base64,(.+)$/);
+    const metadata = sighting.metadata ?? {};
+    lastUploadRef.current = matches ? { mimeType: matches[1], base64: matches[2], metadata } : null;
+    const selected = sighting.candidates.findIndex(c => c.scientificName === sighting.animal.scientificName);
+
+    setSelectedImage(sighting.imageDataUrl);
+    setIdentification({ outcome: IdentificationOutcome.ANIMAL_FOUND, candidates: sighting.candidates });
+    setSelectedCandidate(Math.max(0, selected));
+    setDetections([]);
+    setSelectedDetection(0);
+    setUploadStats(null);
+    setPhotoMetadata(metadata);
+    setMessages(sighting.messages);
+    setQuizResults(sighting.quizResults ?? []);
+    setSightingMeta({
+      id: sighting.id,
+      createdAt: sighting.createdAt,
+      imageDataUrl: sighting.imageDataUrl,
+      thumbnailDataUrl: sighting.thumbnailDataUrl,
+    });
+    setErrorMsg(null);
+    setAppState(AppState.RESULTS);
+  };
+
+  const handleExportSighting = () => {
+    if (!currentSighting) return;
+    const summary = exportSightings([currentSighting]);
+    if (summary.exported === 0) {
+      alert(`${t('export.notReady')}\n\n${describeSkipped(summary, locale)}`);
+    }
+  };
+
+  const handleVoiceClose = (transcript: ChatMessage[]) => {
+    setIsVoiceOpen(false);
+    if (transcript.length > 0) setMessages(prev => [...prev, ...transcript]);
+  };
+
+  const handleSettingsChange = (settings: AssistantSettings) => {
+    setAssistantSettings(settings);
+    saveAssistantSettings(settings);
+  };
+
+  const handleOpenJournal = () => {
+    handleReset();
+    setAppState(AppState.JOURNAL);
+  };
+
   const handleReset = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
     setAppState(AppState.UPLOAD);
     setSelectedImage(null);
-    setAnimalData(null);
+    setIdentification(null);
+    setSelectedCandidate(0);
+    setDetections([]);
+    setSelectedDetection(0);
+    setUploadStats(null);
+    setPhotoMetadata({});
+    setMessages([]);
+    setSightingMeta(null);
+    setQuizResults([]);
+    lastUploadRef.current = null;
     setIsChatOpen(false);
     setIsVoiceOpen(false);
     setErrorMsg(null);
@@ -56,11 +292,30 @@ function App() {
               Eye Animal
             </span>
           </div>
-          {appState !== AppState.UPLOAD && (
-            <button onClick={handleReset} className="text-sm font-medium text-slate-500 hover:text-emerald-600 transition-colors">
-              New Scan
+          <div className="flex items-center gap-6">
+            {appState !== AppState.JOURNAL && (
+              <button onClick={handleOpenJournal} className="text-sm font-medium text-slate-500 hover:text-emerald-600 transition-colors">
+                {t('nav.journal')}
+              </button>
+            )}
+            {appState !== AppState.UPLOAD && (
+              <button onClick={handleReset} className="text-sm font-medium text-slate-500 hover:text-emerald-600 transition-colors">
+                {t('nav.newScan')}
+              </button>
+            )}
+            <LanguageSwitcher />
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              aria-label={t('nav.settings')}
+              title={t('nav.settings')}
+              className="text-slate-500 hover:text-emerald-600 transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.324.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 011.37.49l1.296 2.247a1.125 1.125 0 01-.26 1.431l-1.003.827c-.293.24-.438.613-.431.992a6.759 6.759 0 010 .255c-.007.378.138.75.43.99l1.005.828c.424.35.534.954.26 1.43l-1.298 2.247a1.125 1.125 0 01-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.57 6.57 0 01-.22.128c-.331.183-.581.495-.644.869l-.213 1.28c-.09.543-.56.941-1.11.941h-2.594c-.55 0-1.02-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 01-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 01-1.369-.49l-1.297-2.247a1.125 1.125 0 01.26-1.431l1.004-.827c.292-.24.437-.613.43-.992a6.932 6.932 0 010-.255c.007-.378-.138-.75-.43-.99l-1.004-.828a1.125 1.125 0 01-.26-1.43l1.297-2.247a1.125 1.125 0 011.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.087.22-.128.332-.183.582-.495.644-.869l.214-1.281z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
             </button>
-          )}
+          </div>
         </div>
       </nav>
 
@@ -70,16 +325,20 @@ function App() {
           <div className="flex flex-col items-center justify-center h-full min-h-[60vh] space-y-8 animate-fade-in">
              <div className="text-center space-y-4 max-w-2xl">
                <h1 className="text-4xl md:text-5xl font-extrabold text-slate-900 tracking-tight">
-                 Discover the Animal Kingdom
+                 {t('upload.title')}
                </h1>
                <p className="text-lg text-slate-600 max-w-lg mx-auto">
-                 Instantly identify animals, learn fascinating facts, and chat with our AI zoologist.
+                 {t('upload.subtitle')}
                </p>
              </div>
              <ImageUploader onImageSelected={handleImageSelected} />
           </div>
         )}
 
+        {appState === AppState.JOURNAL && (
+          <SightingJournal onOpenSighting={handleOpenSighting} onNewScan={handleReset} />
+        )}
+
         {appState === AppState.ANALYZING && (
           <div className="flex flex-col items-center justify-center h-[60vh] space-y-6">
             <div className="relative">
@@ -92,20 +351,88 @@ function App() {
                  </svg>
               </div>
             </div>
-            <h2 className="text-xl font-medium text-slate-700 animate-pulse">Analyzing image...</h2>
+            <h2 className="text-xl font-medium text-slate-700 animate-pulse">{t('analyzing.title')}</h2>
+            {uploadStats && uploadStats.processedBytes < uploadStats.originalBytes && (
+              <p className="text-xs text-slate-400">
+                {t('analyzing.optimized', { from: formatBytes(uploadStats.originalBytes), to: formatBytes(uploadStats.processedBytes) })}
+              </p>
+            )}
+            <button
+              onClick={handleReset}
+              className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-800 rounded-lg hover:bg-white/70 transition-colors"
+            >
+              {t('analyzing.cancel')}
+            </button>
           </div>
         )}
 
         {appState === AppState.RESULTS && animalData && selectedImage && (
           <AnimalResults 
             data={animalData} 
+            candidates={activeCandidates}
+            selectedCandidate={selectedCandidate}
+            onSelectCandidate={handleSelectCandidate}
+            detections={detections}
+            selectedDetection={selectedDetection}
+            onSelectDetection={handleSelectDetection}
+            onDetectAnimals={handleDetectAnimals}
+            isDetecting={isDetecting}
+            metadata={photoMetadata}
             originalImage={selectedImage}
             onAskAI={() => setIsChatOpen(true)}
             onVoiceMode={() => setIsVoiceOpen(true)}
+            onExport={handleExportSighting}
+            onCompare={() => setAppState(AppState.COMPARE)}
+            onQuiz={() => setAppState(AppState.QUIZ)}
+            lastQuizResult={animalQuizResults[animalQuizResults.length - 1]}
+            onReanalyze={handleReanalyze}
             onReset={handleReset}
           />
         )}
 
+        {appState === AppState.COMPARE && animalData && (
+          <CompareView
+            first={animalData}
+            suggestions={compareSuggestions}
+            settings={effectiveSettings}
+            onBack={() => setAppState(AppState.RESULTS)}
+          />
+        )}
+
+        {appState === AppState.QUIZ && animalData && (
+          <QuizView
+            animal={animalData}
+            previousResults={animalQuizResults}
+            onComplete={result => setQuizResults(prev => [...prev, result])}
+            onBack={() => setAppState(AppState.RESULTS)}
+          />
+        )}
+
+        {appState === AppState.UNIDENTIFIED && unidentifiedCopy && (
+          <div className="flex flex-col items-center justify-center min-h-[60vh] text-center max-w-xl mx-auto space-y-6 animate-fade-in">
+            {selectedImage && (
+              <img
+                src={selectedImage}
+                alt={t('unidentified.photoAlt')}
+                className="w-32 h-32 object-cover rounded-2xl shadow-md border-4 border-white"
+              />
+            )}
+            <div>
+              <h2 className="text-2xl font-bold text-slate-800 mb-2">{t(unidentifiedCopy.title)}</h2>
+              {identification?.issue && <p className="text-slate-600 mb-1">{identification.issue}</p>}
+              <p className="text-slate-500 text-sm">{t(unidentifiedCopy.hint)}</p>
+              <button
+                onClick={handleReanalyze}
+                title={t('results.reanalyzeHint')}
+                className="mt-3 text-sm font-medium text-emerald-700 hover:text-emerald-800 underline underline-offset-2"
+              >
+                {t('results.reanalyze')}
+              </button>
+            </div>
+            <ImageUploader onImageSelected={handleImageSelected} />
+          </div>
+        )}
+
         {appState === AppState.ERROR && (
           <div className="flex flex-col items-center justify-center h-[50vh] text-center max-w-md mx-auto">
             <div className="bg-red-50 p-4 rounded-full mb-4">
@@ -113,13 +440,13 @@ function App() {
                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
               </svg>
             </div>
-            <h2 className="text-xl font-bold text-slate-800 mb-2">Oops! Something went wrong</h2>
-            <p className="text-slate-600 mb-6">{errorMsg || "We couldn't process your request."}</p>
+            <h2 className="text-xl font-bold text-slate-800 mb-2">{t('error.title')}</h2>
+            <p className="text-slate-600 mb-6">{errorMsg || t('error.fallback')}</p>
             <button 
               onClick={handleReset}
               className="px-6 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition-colors"
             >
-              Try Again
+              {t('error.retry')}
             </button>
           </div>
         )}
@@ -128,7 +455,12 @@ function App() {
       {/* Chat Sidebar */}
       {animalData && (
         <ChatSidebar 
+          key={`${sightingMeta?.id}-${selectedDetection}-${selectedCandidate}-${animalData.scientificName}`}
           animalData={animalData}
+          messages={messages}
+          onMessagesChange={setMessages}
+          photo={chatPhoto}
+          settings={effectiveSettings}
           isOpen={isChatOpen}
           onClose={() => setIsChatOpen(false)}
         />
@@ -138,14 +470,23 @@ function App() {
       {animalData && isVoiceOpen && (
         <VoiceModal
           animalData={animalData}
-          onClose={() => setIsVoiceOpen(false)}
+          settings={effectiveSettings}
+          onClose={handleVoiceClose}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={assistantSettings}
+          onChange={handleSettingsChange}
+          onClose={() => setIsSettingsOpen(false)}
         />
       )}
 
       {/* Footer */}
       <footer className="bg-white border-t border-slate-200 py-6 mt-auto">
         <div className="max-w-7xl mx-auto px-4 text-center text-slate-400 text-sm">
-          © {new Date().getFullYear()} Eye Animal. Powered by Google Gemini.
+          {t('footer.credit', { year: new Date().getFullYear() })}
         </div>
       </footer>
     </div>
@@ -1,37 +1,69 @@
-import React, { useEffect, useState } from 'react';
-import { AnimalDetails } from '../types';
+import React from 'react';
+import { AnimalDetails, AnimalDetection, IdentificationCandidate, PhotoMetadata, QuizResult } from '../types';
 import { Button } from './Button';
-import { generateSimilarImages } from '../services/geminiService';
+import { AnnotatedPhoto } from './AnnotatedPhoto';
+import { TaxonomyBreadcrumb } from './TaxonomyBreadcrumb';
+import { AnimalStats, hasAnimalStats } from './AnimalStats';
+import { ConservationBadge } from './ConservationBadge';
+import { SimilarImageGallery } from './SimilarImageGallery';
+import { PhotoEditor } from './PhotoEditor';
+import { formatCoordinates } from '../services/geolocation';
+import { useI18n } from './I18nProvider';
 
 interface AnimalResultsProps {
   data: AnimalDetails;
+  candidates: IdentificationCandidate[];
+  selectedCandidate: number;
+  onSelectCandidate: (index: number) => void;
+  detections: AnimalDetection[];
+  selectedDetection: number;
+  onSelectDetection: (index: number) => void;
+  onDetectAnimals: () => void;
+  isDetecting: boolean;
+  metadata: PhotoMetadata;
   originalImage: string;
   onAskAI: () => void;
   onVoiceMode: () => void;
+  onExport: () => void;
+  onCompare: () => void;
+  onQuiz: () => void;
+  /** The most recent quiz on this animal, if any. */
+  lastQuizResult?: QuizResult;
+  /** Identifies the photo again, skipping the cached answer. */
+  onReanalyze: () => void;
   onReset: () => void;
 }
 
-export const AnimalResults: React.FC<AnimalResultsProps> = ({ data, originalImage, onAskAI, onVoiceMode, onReset }) => {
-  const [similarImages, setSimilarImages] = useState<string[]>([]);
-  const [loadingImages, setLoadingImages] = useState(true);
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
 
-  useEffect(() => {
-    let isMounted = true;
-    const fetchImages = async () => {
-      try {
-        const images = await generateSimilarImages(data.commonName);
-        if (isMounted) {
-            setSimilarImages(images);
-            setLoadingImages(false);
-        }
-      } catch (error) {
-        console.error("Failed to load similar images", error);
-        if (isMounted) setLoadingImages(false);
-      }
-    };
-    fetchImages();
-    return () => { isMounted = false; };
-  }, [data.commonName]);
+const formatCapturedAt = (capturedAt: string, locale: string) => {
+  const date = new Date(capturedAt);
+  return isNaN(date.getTime()) ? capturedAt : date.toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+export const AnimalResults: React.FC<AnimalResultsProps> = ({
+  data,
+  candidates,
+  selectedCandidate,
+  onSelectCandidate,
+  detections,
+  selectedDetection,
+  onSelectDetection,
+  onDetectAnimals,
+  isDetecting,
+  metadata,
+  originalImage,
+  onAskAI,
+  onVoiceMode,
+  onExport,
+  onCompare,
+  onQuiz,
+  lastQuizResult,
+  onReanalyze,
+  onReset
+}) => {
+  const { locale, t } = useI18n();
+  const current = candidates[selectedCandidate];
 
   return (
     <div className="w-full max-w-4xl mx-auto space-y-8 animate-fade-in-up pb-20">
@@ -39,25 +71,61 @@ export const AnimalResults: React.FC<AnimalResultsProps> = ({ data, originalImag
       <div className="bg-white rounded-3xl shadow-xl overflow-hidden border border-slate-100">
         <div className="md:flex">
           {/* Image Side */}
-          <div className="md:w-1/2 h-64 md:h-auto relative bg-slate-200">
-            <img 
-              src={originalImage} 
-              alt="Uploaded Animal" 
-              className="w-full h-full object-cover"
-            />
-            <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-md text-white px-3 py-1 rounded-full text-xs font-medium">
-              Your Photo
+          <div className={`md:w-1/2 relative bg-slate-200 ${detections.length > 0 ? 'min-h-64' : 'h-64 md:h-auto'}`}>
+            {detections.length > 0 ? (
+              <AnnotatedPhoto
+                src={originalImage}
+                detections={detections}
+                selectedIndex={selectedDetection}
+                onSelect={onSelectDetection}
+              />
+            ) : (
+              <img 
+                src={originalImage} 
+                alt={t('results.photoAlt')} 
+                className="w-full h-full object-cover"
+              />
+            )}
+            <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-md text-white px-3 py-1 rounded-full text-xs font-medium pointer-events-none z-20">
+              {detections.length > 1 ? t('results.yourPhotoCount', { count: detections.length }) : t('results.yourPhoto')}
             </div>
+            {(metadata.capturedAt || metadata.location) && (
+              <div className="absolute top-4 right-4 bg-black/50 backdrop-blur-md text-white px-3 py-1 rounded-xl text-xs font-medium pointer-events-none z-20 text-right">
+                {metadata.capturedAt && <span className="block">{formatCapturedAt(metadata.capturedAt, locale)}</span>}
+                {metadata.location && <span className="block">{formatCoordinates(metadata.location)}</span>}
+              </div>
+            )}
+            {detections.length === 0 && (
+              <button
+                onClick={onDetectAnimals}
+                disabled={isDetecting}
+                className="absolute bottom-4 left-4 bg-white/90 hover:bg-white text-slate-800 px-3 py-1.5 rounded-full text-xs font-semibold shadow-md transition-colors disabled:opacity-60"
+              >
+                {isDetecting ? t('results.findingAnimals') : t('results.findAllAnimals')}
+              </button>
+            )}
+            <button
+              onClick={onReanalyze}
+              title={t('results.reanalyzeHint')}
+              className="absolute bottom-4 right-4 bg-white/90 hover:bg-white text-slate-800 px-3 py-1.5 rounded-full text-xs font-semibold shadow-md transition-colors z-20"
+            >
+              {t('results.reanalyze')}
+            </button>
           </div>
 
           {/* Details Side */}
           <div className="md:w-1/2 p-6 md:p-8 flex flex-col justify-center">
             <div className="mb-4">
-              <span className="inline-block px-3 py-1 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-800 mb-2">
-                {data.conservationStatus}
-              </span>
+              <div className="mb-2">
+                <ConservationBadge status={data.conservationStatus} />
+              </div>
               <h1 className="text-3xl md:text-4xl font-bold text-slate-900 mb-1">{data.commonName}</h1>
               <p className="text-lg text-slate-500 italic font-serif">{data.scientificName}</p>
+              {current && (
+                <p className="text-xs font-medium text-slate-400 mt-2">
+                  {selectedCandidate === 0 ? t('results.topMatch') : t('results.alternativeMatch')} · {t('results.confidence', { value: formatConfidence(current.confidence) })}
+                </p>
+              )}
             </div>
 
             <p className="text-slate-600 leading-relaxed mb-6">
@@ -66,18 +134,29 @@ export const AnimalResults: React.FC<AnimalResultsProps> = ({ data, originalImag
 
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
               <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
-                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Habitat</span>
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">{t('results.habitat')}</span>
                 <p className="text-sm font-medium text-slate-700">{data.habitat}</p>
               </div>
               <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
-                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">Diet</span>
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">{t('results.diet')}</span>
                 <p className="text-sm font-medium text-slate-700">{data.diet}</p>
               </div>
             </div>
 
+            {current && current.distinguishingFeatures.length > 0 && (
+              <div className="mb-6">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">{t('results.visualCues')}</span>
+                <ul className="flex flex-wrap gap-2">
+                  {current.distinguishingFeatures.map((feature, idx) => (
+                    <li key={idx} className="px-2.5 py-1 rounded-md bg-slate-100 text-xs text-slate-600">{feature}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="bg-amber-50 border-l-4 border-amber-400 p-4 rounded-r-lg mb-6">
                <p className="text-sm text-amber-900">
-                 <span className="font-bold mr-1">Fun Fact:</span>
+                 <span className="font-bold mr-1">{t('results.funFact')}</span>
                  {data.funFact}
                </p>
             </div>
@@ -87,55 +166,89 @@ export const AnimalResults: React.FC<AnimalResultsProps> = ({ data, originalImag
                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
                   <path fillRule="evenodd" d="M9 4.5a.75.75 0 01.721.544l.813 2.846a3.75 3.75 0 002.576 2.576l2.846.813a.75.75 0 010 1.442l-2.846.813a3.75 3.75 0 00-2.576 2.576l-.813 2.846a.75.75 0 01-1.442 0l-.813-2.846a3.75 3.75 0 00-2.576-2.576l-2.846-.813a.75.75 0 010-1.442l2.846-.813a3.75 3.75 0 002.576-2.576l.813-2.846A.75.75 0 019 4.5zM6 20.25a.75.75 0 01.75.75v.008c0 .414.336.75.75.75h.008a.75.75 0 01.75.75v.008c0 .414-.336.75-.75.75h-.008a.75.75 0 01-.75-.75v-.008c0-.414.336-.75.75-.75h.008a.75.75 0 01-.75-.75v-.008z" clipRule="evenodd" />
                 </svg>
-                Chat
+                {t('results.chat')}
               </Button>
               <Button onClick={onVoiceMode} variant="secondary" className="flex-1 flex gap-2 items-center justify-center bg-blue-100 text-blue-800 hover:bg-blue-200 border-none">
                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
                    <path d="M8.25 4.5a3.75 3.75 0 117.5 0v8.25a3.75 3.75 0 11-7.5 0V4.5z" />
                    <path d="M6 10.5a.75.75 0 01.75.75v1.5a5.25 5.25 0 1010.5 0v-1.5a.75.75 0 011.5 0v1.5a6.751 6.751 0 01-6 6.709v2.291h3a.75.75 0 010 1.5h-7.5a.75.75 0 010-1.5h3v-2.291a6.751 6.751 0 01-6-6.709v-1.5A.75.75 0 016 10.5z" />
                  </svg>
-                 Voice Mode
+                 {t('results.voiceMode')}
               </Button>
             </div>
-            <div className="mt-3">
-              <Button onClick={onReset} variant="outline" className="w-full">
-                 New Scan
+            <div className="mt-3 grid grid-cols-2 gap-3">
+              <Button onClick={onExport} variant="outline" className="flex gap-2 items-center justify-center" title={t('results.exportHint')}>
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+                </svg>
+                {t('results.export')}
+              </Button>
+              <Button onClick={onCompare} variant="outline" title={t('compare.buttonHint')}>
+                {t('compare.button')}
+              </Button>
+              <Button onClick={onQuiz} variant="outline" className="flex gap-2 items-center justify-center" title={t('quiz.buttonHint')}>
+                {t('quiz.button')}
+                {lastQuizResult && (
+                  <span className="px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-800 text-xs font-semibold">
+                    {t('quiz.lastScore', { score: lastQuizResult.score, total: lastQuizResult.total })}
+                  </span>
+                )}
+              </Button>
+              <Button onClick={onReset} variant="outline">
+                 {t('nav.newScan')}
               </Button>
             </div>
           </div>
         </div>
       </div>
 
-      {/* Similar Images Section */}
-      <div className="space-y-4">
-        <h2 className="text-2xl font-bold text-slate-800">Similar Images</h2>
-        {loadingImages ? (
+      {/* Taxonomy and biometrics */}
+      {(data.taxonomy || hasAnimalStats(data)) && (
+        <div className="bg-white rounded-3xl shadow-xl border border-slate-100 p-6 md:p-8 space-y-6">
+          <h2 className="text-2xl font-bold text-slate-800">{t('results.profile')}</h2>
+          {data.taxonomy && <TaxonomyBreadcrumb taxonomy={data.taxonomy} />}
+          <AnimalStats data={data} />
+        </div>
+      )}
+
+      {/* Edits of the user's own photo */}
+      <PhotoEditor originalImage={originalImage} animalName={data.commonName} />
+
+      {/* Alternative Candidates */}
+      {candidates.length > 1 && (
+        <div className="space-y-4">
+          <h2 className="text-2xl font-bold text-slate-800">{t('results.otherPossibilities')}</h2>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {[1, 2, 3].map(i => (
-              <div key={i} className="aspect-square bg-slate-200 rounded-2xl animate-pulse"></div>
-            ))}
-          </div>
-        ) : similarImages.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {similarImages.map((imgUrl, idx) => (
-              <div key={idx} className="group relative overflow-hidden rounded-2xl shadow-md hover:shadow-xl transition-all duration-300">
-                <img 
-                  src={imgUrl} 
-                  alt={`${data.commonName} variation ${idx + 1}`} 
-                  className="w-full h-64 object-cover transform group-hover:scale-105 transition-transform duration-500"
-                />
-                <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end p-4">
-                   <p className="text-white text-sm font-medium">AI Generated Visualization</p>
+            {candidates.map((candidate, idx) => (
+              <button
+                key={`${idx}-${candidate.scientificName}`}
+                onClick={() => onSelectCandidate(idx)}
+                disabled={idx === selectedCandidate}
+                className={`text-left p-4 rounded-2xl border transition-all ${
+                  idx === selectedCandidate
+                    ? 'bg-emerald-50 border-emerald-400 ring-2 ring-emerald-100 cursor-default'
+                    : 'bg-white border-slate-200 hover:border-emerald-400 hover:shadow-md'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="font-semibold text-slate-800">{candidate.commonName}</span>
+                  <span className="text-xs font-bold text-emerald-700">{formatConfidence(candidate.confidence)}</span>
                 </div>
-              </div>
+                <p className="text-sm text-slate-500 italic font-serif mb-3">{candidate.scientificName}</p>
+                <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden mb-3">
+                  <div className="h-full bg-emerald-500 rounded-full" style={{ width: formatConfidence(candidate.confidence) }} />
+                </div>
+                {candidate.distinguishingFeatures.length > 0 && (
+                  <p className="text-xs text-slate-500 line-clamp-2">{candidate.distinguishingFeatures.join(' · ')}</p>
+                )}
+              </button>
             ))}
           </div>
-        ) : (
-          <div className="p-8 text-center bg-slate-50 rounded-2xl border border-dashed border-slate-300 text-slate-500">
-             Could not generate similar images at this time.
-          </div>
-        )}
-      </div>
+        </div>
+      )}
+
+      {/* Similar Images Section */}
+      <SimilarImageGallery animalName={data.commonName} />
     </div>
   );
 };
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ActivityPattern, AnimalDetails, Measurement } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface AnimalStatsProps {
+  data: AnimalDetails;
+  /** Keeps two columns at every width, for narrow containers. */
+  compact?: boolean;
+}
+
+const ACTIVITY_LABELS: Record<ActivityPattern, MessageKey> = {
+  [ActivityPattern.DIURNAL]: 'activity.diurnal',
+  [ActivityPattern.NOCTURNAL]: 'activity.nocturnal',
+  [ActivityPattern.CREPUSCULAR]: 'activity.crepuscular',
+  [ActivityPattern.CATHEMERAL]: 'activity.cathemeral',
+};
+
+/**
+ * "45–90 cm", or a single figure when the range is a point. Units are Intl
+ * identifiers, so the browser localizes both the numbers and the unit names.
+ */
+const formatMeasurement = (measurement: Measurement<string>, locale: string, unitDisplay: 'short' | 'long'): string => {
+  const withUnit = new Intl.NumberFormat(locale, { style: 'unit', unit: measurement.unit, unitDisplay, maximumFractionDigits: 1 });
+  if (measurement.min === measurement.max) return withUnit.format(measurement.max);
+  const plain = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 });
+  return `${plain.format(measurement.min)}–${withUnit.format(measurement.max)}`;
+};
+
+/**
+ * True when there is at least one stat worth showing.
+ */
+export const hasAnimalStats = (data: AnimalDetails): boolean =>
+  Boolean(data.size || data.weight || data.lifespan || data.activityPattern || data.nativeRange?.length);
+
+export const AnimalStats: React.FC<AnimalStatsProps> = ({ data, compact = false }) => {
+  const { locale, t } = useI18n();
+
+  const stats: { label: string; value: string }[] = [
+    data.size && { label: t('stats.size'), value: formatMeasurement(data.size, locale, 'short') },
+    data.weight && { label: t('stats.weight'), value: formatMeasurement(data.weight, locale, 'short') },
+    data.lifespan && { label: t('stats.lifespan'), value: formatMeasurement(data.lifespan, locale, 'long') },
+    data.activityPattern && { label: t('stats.activity'), value: t(ACTIVITY_LABELS[data.activityPattern]) },
+  ].filter((stat): stat is { label: string; value: string } => Boolean(stat));
+
+  return (
+    <div className="space-y-4">
+      {stats.length > 0 && (
+        <dl className={`grid grid-cols-2 gap-4 ${compact ? '' : 'md:grid-cols-4'}`}>
+          {stats.map(stat => (
+            <div key={stat.label} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+              <dt className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{stat.label}</dt>
+              <dd className="text-sm font-medium text-slate-700">{stat.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {data.nativeRange && data.nativeRange.length > 0 && (
+        <div>
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">{t('stats.nativeRange')}</span>
+          <ul className="flex flex-wrap gap-2">
+            {data.nativeRange.map(region => (
+              <li key={region} className="px-2.5 py-1 rounded-md bg-emerald-50 text-xs font-medium text-emerald-800">{region}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
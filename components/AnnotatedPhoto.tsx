@@ -0,0 +1,57 @@
+import React from 'react';
+import { AnimalDetection } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface AnnotatedPhotoProps {
+  src: string;
+  detections: AnimalDetection[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+export const AnnotatedPhoto: React.FC<AnnotatedPhotoProps> = ({ src, detections, selectedIndex, onSelect }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full h-full flex items-center justify-center bg-slate-900">
+      {/* The wrapper shrinks to the rendered image so percentage boxes line up with it */}
+      <div className="relative inline-block max-w-full max-h-full">
+        <img
+          src={src}
+          alt={t('results.photoAlt')}
+          className="block max-w-full max-h-[32rem] h-auto"
+        />
+        {detections.map((detection, idx) => {
+          const { xMin, yMin, xMax, yMax } = detection.box;
+          const isSelected = idx === selectedIndex;
+          const label = detection.candidates[0]?.commonName ?? t('photo.fallbackLabel', { index: idx + 1 });
+          return (
+            <button
+              key={idx}
+              onClick={() => onSelect(idx)}
+              aria-pressed={isSelected}
+              aria-label={t('photo.showDetails', { name: label })}
+              className={`absolute rounded-md border-2 transition-colors ${
+                isSelected
+                  ? 'border-emerald-400 bg-emerald-400/10 z-10'
+                  : 'border-white/80 hover:border-emerald-300 hover:bg-white/10'
+              }`}
+              style={{
+                left: `${xMin * 100}%`,
+                top: `${yMin * 100}%`,
+                width: `${(xMax - xMin) * 100}%`,
+                height: `${(yMax - yMin) * 100}%`,
+              }}
+            >
+              <span className={`absolute -top-px -left-px px-2 py-0.5 rounded-br-md rounded-tl-md text-xs font-semibold whitespace-nowrap ${
+                isSelected ? 'bg-emerald-400 text-emerald-950' : 'bg-white/90 text-slate-800'
+              }`}>
+                {label}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
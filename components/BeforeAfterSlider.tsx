@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+
+interface BeforeAfterSliderProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+  /** Accessible name for the slider handle. */
+  label: string;
+}
+
+/**
+ * Stacks two images and reveals the "after" one up to a draggable divider.
+ * A native range input drives the position, so keyboard and touch work too.
+ */
+export const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ before, after, beforeLabel, afterLabel, label }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="relative w-full aspect-[4/3] rounded-2xl overflow-hidden bg-slate-900 select-none">
+      <img src={before} alt={beforeLabel} className="absolute inset-0 w-full h-full object-contain" />
+      <img
+        src={after}
+        alt={afterLabel}
+        className="absolute inset-0 w-full h-full object-contain"
+        style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+      />
+
+      <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-white shadow-lg flex items-center justify-center text-slate-600">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 15L12 18.75 15.75 15m-7.5-6L12 5.25 15.75 9" transform="rotate(90 12 12)" />
+          </svg>
+        </div>
+      </div>
+
+      <span className="absolute top-3 left-3 bg-black/50 backdrop-blur-md text-white px-3 py-1 rounded-full text-xs font-medium pointer-events-none">{beforeLabel}</span>
+      <span className="absolute top-3 right-3 bg-black/50 backdrop-blur-md text-white px-3 py-1 rounded-full text-xs font-medium pointer-events-none">{afterLabel}</span>
+
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        aria-label={label}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface CameraCaptureProps {
+  /** Full-resolution frame; callers run it through preprocessImage. */
+  onCapture: (photo: Blob) => void;
+  onCancel: () => void;
+}
+
+type FacingMode = 'environment' | 'user';
+
+const CAPTURE_MIME_TYPE = 'image/jpeg';
+// High quality on purpose: the preprocessing step does the real compression
+const CAPTURE_QUALITY = 0.95;
+
+const describeCameraError = (err: unknown): MessageKey => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'camera.denied';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'camera.notFound';
+  if (name === 'NotReadableError') return 'camera.inUse';
+  return 'camera.failed';
+};
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<MessageKey | null>(null);
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const startCamera = async () => {
+      setIsReady(false);
+      setErrorMessage(null);
+
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setErrorMessage('camera.unsupported');
+        return;
+      }
+
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: facingMode }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => {});
+        }
+
+        // Device labels and counts are only reliable after permission is granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setHasMultipleCameras(devices.filter(device => device.kind === 'videoinput').length > 1);
+          setIsReady(true);
+        }
+      } catch (err) {
+        console.error('Failed to start camera', err);
+        if (!cancelled) setErrorMessage(describeCameraError(err));
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [facingMode]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // The front camera preview is mirrored; the captured photo should not be
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(photo => {
+      if (!photo) return;
+      stopStream();
+      onCapture(photo);
+    }, CAPTURE_MIME_TYPE, CAPTURE_QUALITY);
+  };
+
+  const toggleFacingMode = () => {
+    setFacingMode(prev => (prev === 'environment' ? 'user' : 'environment'));
+  };
+
+  if (errorMessage) {
+    return (
+      <div className="w-full max-w-xl mx-auto text-center p-8 border-2 border-dashed border-slate-300 rounded-2xl bg-white shadow-sm space-y-4">
+        <div className="mx-auto w-fit bg-amber-50 text-amber-600 p-4 rounded-full">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-10 h-10">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
+          </svg>
+        </div>
+        <p className="text-slate-600 text-sm">{t(errorMessage)}</p>
+        <Button variant="primary" onClick={onCancel}>{t('camera.uploadInstead')}</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-xl mx-auto rounded-2xl overflow-hidden bg-black shadow-xl">
+      <div className="relative aspect-[4/3] bg-black">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={`w-full h-full object-cover ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+        />
+        {!isReady && (
+          <div className="absolute inset-0 flex items-center justify-center text-white/70 text-sm">
+            {t('camera.starting')}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between px-6 py-4 bg-slate-900">
+        <button onClick={onCancel} className="text-sm font-medium text-white/70 hover:text-white transition-colors">
+          {t('camera.cancel')}
+        </button>
+
+        <button
+          onClick={handleCapture}
+          disabled={!isReady}
+          aria-label={t('camera.takePhoto')}
+          className="w-16 h-16 rounded-full border-4 border-white bg-white/20 hover:bg-white/40 transition-colors disabled:opacity-40"
+        />
+
+        <button
+          onClick={toggleFacingMode}
+          disabled={!hasMultipleCameras}
+          aria-label={t('camera.switch')}
+          className="p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors disabled:invisible"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,58 +1,147 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { AnimalDetails, ChatMessage } from '../types';
+import { AnimalDetails, AssistantSettings, ChatImage, ChatMessage } from '../types';
 import { createAnimalChat } from '../services/geminiService';
-import { Chat, GenerateContentResponse } from '@google/genai';
+import { AnimalChatSession } from '../services/aiProvider';
+import { isSupportedImageFile, preprocessImage } from '../services/imagePreprocessing';
+import { MessageKey } from '../services/i18n';
+import { Markdown } from './Markdown';
+import { useI18n } from './I18nProvider';
 
 interface ChatSidebarProps {
   animalData: AnimalDetails;
+  /** Owned by the parent so the transcript can be saved with the sighting. */
+  messages: ChatMessage[];
+  onMessagesChange: (update: (prev: ChatMessage[]) => ChatMessage[]) => void;
+  /** The identified photo, shared with the model when the chat starts. */
+  photo?: ChatImage;
+  settings: AssistantSettings;
+  /** Turns the chat into a conversation about how `animalData` differs from this animal. */
+  comparedWith?: AnimalDetails;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export const ChatSidebar: React.FC<ChatSidebarProps> = ({ animalData, isOpen, onClose }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const MAX_ATTACHMENTS = 4;
+
+// Enough detail for close-ups without bloating the request or the saved transcript
+const ATTACHMENT_MAX_DIMENSION = 1024;
+
+const toDataUrl = (image: ChatImage) => `data:${image.mimeType};base64,${image.data}`;
+
+// Notices live outside `text`, so they are never replayed to the model as its own words
+const incompleteNotice = ({ text, incomplete }: ChatMessage): MessageKey | null => {
+  if (incomplete === 'stopped') return 'chat.stopped';
+  if (incomplete === 'error') return text ? 'chat.connectionDropped' : 'chat.error';
+  if (incomplete === 'empty') return 'chat.emptyReply';
+  return null;
+};
+
+export const ChatSidebar: React.FC<ChatSidebarProps> = ({ animalData, messages, onMessagesChange: setMessages, photo, settings, comparedWith, isOpen, onClose }) => {
+  const { t } = useI18n();
   const [inputValue, setInputValue] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const chatRef = useRef<Chat | null>(null);
+  const [attachments, setAttachments] = useState<ChatImage[]>([]);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const chatRef = useRef<AnimalChatSession | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    if (animalData && !chatRef.current) {
-      chatRef.current = createAnimalChat(animalData);
-      // Initial greeting
-      setMessages([{
+    if (!animalData) return;
+    // Rebuilt when the settings change; the conversation so far carries over as history
+    chatRef.current = createAnimalChat(animalData, { history: messages, photo, settings, comparedWith });
+    // Initial greeting, unless we are resuming a saved conversation
+    if (messages.length === 0) {
+      setMessages(() => [{
         role: 'model',
-        text: `Hello! I see you found a ${animalData.commonName}. What would you like to know about it?`
+        text: comparedWith
+          ? t('chat.compareGreeting', { first: animalData.commonName, second: comparedWith.commonName })
+          : t('chat.greeting', { name: animalData.commonName })
       }]);
     }
-  }, [animalData]);
+  }, [animalData, settings, comparedWith]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Stop any answer still streaming when the sidebar goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).filter(isSupportedImageFile);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsAttaching(true);
+    try {
+      const images = await Promise.all(
+        files.slice(0, MAX_ATTACHMENTS - attachments.length).map(async file => {
+          const processed = await preprocessImage(file, { maxDimension: ATTACHMENT_MAX_DIMENSION });
+          return { mimeType: processed.mimeType, data: processed.base64 };
+        })
+      );
+      setAttachments(prev => [...prev, ...images].slice(0, MAX_ATTACHMENTS));
+    } catch (error) {
+      console.error("Failed to attach photo", error);
+      alert(t('chat.attachFailed'));
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
   const handleSendMessage = async () => {
-    if (!inputValue.trim() || !chatRef.current) return;
+    if ((!inputValue.trim() && attachments.length === 0) || !chatRef.current || isStreaming) return;
 
     const userMsg = inputValue;
+    const images = attachments;
     setInputValue('');
-    setMessages(prev => [...prev, { role: 'user', text: userMsg }]);
-    setIsLoading(true);
+    setAttachments([]);
+    // The empty model message is filled in as chunks arrive
+    setMessages(prev => [
+      ...prev,
+      { role: 'user', text: userMsg, ...(images.length > 0 && { images }) },
+      { role: 'model', text: '' },
+    ]);
+    setIsStreaming(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const setReply = (text: string, incomplete?: ChatMessage['incomplete']) =>
+      setMessages(prev => [...prev.slice(0, -1), { role: 'model', text, ...(incomplete && { incomplete }) }]);
 
+    let reply = '';
     try {
-      const response: GenerateContentResponse = await chatRef.current.sendMessage({
-          message: userMsg
-      });
-      
-      const responseText = response.text || "I couldn't generate a response. Please try again.";
-      
-      setMessages(prev => [...prev, { role: 'model', text: responseText }]);
+      for await (const chunk of chatRef.current.sendMessageStream(userMsg, { images, signal: controller.signal })) {
+        reply += chunk;
+        setReply(reply);
+      }
     } catch (error) {
-      console.error("Chat error:", error);
-      setMessages(prev => [...prev, { role: 'model', text: "Sorry, I encountered an error connecting to the AI." }]);
+      if (!controller.signal.aborted) {
+        console.error("Chat error:", error);
+        setReply(reply, 'error');
+        return;
+      }
     } finally {
-      setIsLoading(false);
+      abortRef.current = null;
+      setIsStreaming(false);
     }
+
+    if (controller.signal.aborted) {
+      setReply(reply, 'stopped');
+    } else if (!reply) {
+      setReply(reply, 'empty');
+    }
+  };
+
+  const replyText = (msg: ChatMessage) => {
+    const notice = incompleteNotice(msg);
+    return notice ? [msg.text, t(notice)].filter(Boolean).join('\n\n') : msg.text;
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -81,9 +170,11 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({ animalData, isOpen, on
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09zM18.259 8.715L18 9.75l-.259-1.035a3.375 3.375 0 00-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 002.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 002.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 00-2.456 2.456z" />
               </svg>
-              Ask about {animalData.commonName}
+              {comparedWith
+                ? t('chat.compareTitle', { first: animalData.commonName, second: comparedWith.commonName })
+                : t('chat.title', { name: animalData.commonName })}
             </h3>
-            <button onClick={onClose} className="p-1 hover:bg-emerald-700 rounded-full">
+            <button onClick={onClose} aria-label={t('chat.close')} className="p-1 hover:bg-emerald-700 rounded-full">
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
               </svg>
@@ -94,50 +185,129 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({ animalData, isOpen, on
           <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50">
             {messages.map((msg, idx) => (
               <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div 
-                  className={`max-w-[85%] p-3 rounded-xl text-sm leading-relaxed shadow-sm ${
-                    msg.role === 'user' 
-                      ? 'bg-emerald-600 text-white rounded-tr-none' 
-                      : 'bg-white text-slate-800 border border-slate-200 rounded-tl-none'
-                  }`}
-                >
-                  {msg.text}
-                </div>
+                {msg.role === 'model' && !msg.text && isStreaming && idx === messages.length - 1 ? (
+                  <div className="bg-white border border-slate-200 p-3 rounded-xl rounded-tl-none shadow-sm flex gap-2">
+                     <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce"></div>
+                     <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
+                     <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{animationDelay: '0.4s'}}></div>
+                  </div>
+                ) : (
+                  <div 
+                    className={`max-w-[85%] p-3 rounded-xl text-sm leading-relaxed shadow-sm ${
+                      msg.role === 'user' 
+                        ? 'bg-emerald-600 text-white rounded-tr-none whitespace-pre-wrap' 
+                        : 'bg-white text-slate-800 border border-slate-200 rounded-tl-none'
+                    }`}
+                  >
+                    {msg.images && msg.images.length > 0 && (
+                      <div className={`grid gap-1 ${msg.images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'} ${msg.text ? 'mb-2' : ''}`}>
+                        {msg.images.map((image, imageIdx) => (
+                          <img
+                            key={imageIdx}
+                            src={toDataUrl(image)}
+                            alt={t('chat.attachmentAlt', { index: imageIdx + 1 })}
+                            className="w-full max-h-48 object-cover rounded-lg"
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {msg.viaVoice && (
+                      <span className={`flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wider mb-1 ${msg.role === 'user' ? 'text-emerald-100' : 'text-slate-400'}`}>
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-3 h-3">
+                          <path d="M8.25 4.5a3.75 3.75 0 117.5 0v8.25a3.75 3.75 0 11-7.5 0V4.5z" />
+                          <path d="M6 10.5a.75.75 0 01.75.75v1.5a5.25 5.25 0 1010.5 0v-1.5a.75.75 0 011.5 0v1.5a6.751 6.751 0 01-6 6.709v2.291h3a.75.75 0 010 1.5h-7.5a.75.75 0 010-1.5h3v-2.291a6.751 6.751 0 01-6-6.709v-1.5A.75.75 0 016 10.5z" />
+                        </svg>
+                        {t('chat.voiceLabel')}
+                      </span>
+                    )}
+                    {msg.role === 'model'
+                      ? <Markdown text={replyText(msg)} />
+                      : msg.text}
+                  </div>
+                )}
               </div>
             ))}
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className="bg-white border border-slate-200 p-3 rounded-xl rounded-tl-none shadow-sm flex gap-2">
-                   <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce"></div>
-                   <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
-                   <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{animationDelay: '0.4s'}}></div>
-                </div>
-              </div>
-            )}
             <div ref={messagesEndRef} />
           </div>
 
           {/* Input Area */}
           <div className="p-4 bg-white border-t border-slate-100">
+            {attachments.length > 0 && (
+              <div className="flex gap-2 mb-3">
+                {attachments.map((image, idx) => (
+                  <div key={idx} className="relative">
+                    <img src={toDataUrl(image)} alt={t('chat.attachmentAlt', { index: idx + 1 })} className="w-14 h-14 object-cover rounded-lg border border-slate-200" />
+                    <button
+                      onClick={() => setAttachments(prev => prev.filter((_, i) => i !== idx))}
+                      aria-label={t('chat.removeAttachment', { index: idx + 1 })}
+                      className="absolute -top-1.5 -right-1.5 w-5 h-5 flex items-center justify-center rounded-full bg-slate-700 text-white hover:bg-red-500 transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={3} stroke="currentColor" className="w-3 h-3">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*,.heic,.heif"
+                multiple
+                className="hidden"
+                onChange={handleAttach}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isStreaming || isAttaching || attachments.length >= MAX_ATTACHMENTS}
+                aria-label={t('chat.attachPhotos')}
+                title={t('chat.attachHint')}
+                className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-emerald-600 disabled:opacity-50 transition-colors"
+              >
+                {isAttaching ? (
+                  <svg className="animate-spin w-5 h-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
+                  </svg>
+                ) : (
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M18.375 12.739l-7.693 7.693a4.5 4.5 0 01-6.364-6.364l10.94-10.94A3 3 0 1119.5 7.372L8.552 18.32m.009-.01l-.01.01m5.699-9.941l-7.81 7.81a1.5 1.5 0 002.112 2.13" />
+                  </svg>
+                )}
+              </button>
               <input
                 type="text"
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder="Ask something..."
-                disabled={isLoading}
+                placeholder={t('chat.placeholder')}
+                disabled={isStreaming}
                 className="flex-1 px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm"
               />
-              <button
-                onClick={handleSendMessage}
-                disabled={isLoading || !inputValue.trim()}
-                className="bg-emerald-600 text-white p-2 rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-colors"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
-                </svg>
-              </button>
+              {isStreaming ? (
+                <button
+                  onClick={handleStop}
+                  aria-label={t('chat.stop')}
+                  className="bg-slate-700 text-white p-2 rounded-lg hover:bg-slate-800 transition-colors"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                    <path fillRule="evenodd" d="M4.5 7.5a3 3 0 013-3h9a3 3 0 013 3v9a3 3 0 01-3 3h-9a3 3 0 01-3-3v-9z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  onClick={handleSendMessage}
+                  disabled={!inputValue.trim() && attachments.length === 0}
+                  aria-label={t('chat.send')}
+                  className="bg-emerald-600 text-white p-2 rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
+                  </svg>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimalComparison, AnimalDetails, AssistantSettings, ChatMessage, ComparisonPoint, IdentificationOutcome, ImageSizeStats, PhotoMetadata, RangeOverlap } from '../types';
+import { compareAnimals, identifyAnimal } from '../services/geminiService';
+import { InvalidModelResponseError } from '../services/responseValidation';
+import { isAbortError } from '../services/requestPolicy';
+import { MessageKey } from '../services/i18n';
+import { Button } from './Button';
+import { AnimalStats } from './AnimalStats';
+import { ChatSidebar } from './ChatSidebar';
+import { ConservationBadge } from './ConservationBadge';
+import { ImageUploader } from './ImageUploader';
+import { useI18n } from './I18nProvider';
+
+interface CompareViewProps {
+  first: AnimalDetails;
+  /** Other animals from this session, offered before a second upload. */
+  suggestions: AnimalDetails[];
+  settings: AssistantSettings;
+  onBack: () => void;
+}
+
+const OVERLAP_STYLES: Record<RangeOverlap, { label: MessageKey; className: string }> = {
+  [RangeOverlap.NONE]: { label: 'compare.overlap.none', className: 'bg-slate-100 text-slate-700' },
+  [RangeOverlap.PARTIAL]: { label: 'compare.overlap.partial', className: 'bg-amber-100 text-amber-800' },
+  [RangeOverlap.EXTENSIVE]: { label: 'compare.overlap.extensive', className: 'bg-emerald-100 text-emerald-800' },
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">{children}</h3>
+);
+
+/**
+ * Aspect-by-aspect rows, with each animal's side in its own column.
+ */
+const ComparisonRows: React.FC<{ points: ComparisonPoint[]; names: [string, string] }> = ({ points, names }) => (
+  <div>
+    <div className="grid grid-cols-2 gap-4 pb-2 border-b border-slate-100 text-xs font-semibold text-emerald-700">
+      <span>{names[0]}</span>
+      <span>{names[1]}</span>
+    </div>
+    <dl className="divide-y divide-slate-100">
+      {points.map((point, idx) => (
+        <div key={`${idx}-${point.aspect}`} className="py-3">
+          <dt className="text-sm font-semibold text-slate-800 mb-1">{point.aspect}</dt>
+          <dd className="grid grid-cols-2 gap-4 text-sm text-slate-600">
+            <span>{point.first}</span>
+            <span>{point.second}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  </div>
+);
+
+export const CompareView: React.FC<CompareViewProps> = ({ first, suggestions, settings, onBack }) => {
+  const { locale, t } = useI18n();
+  const [second, setSecond] = useState<AnimalDetails | null>(null);
+  const [isIdentifying, setIsIdentifying] = useState(false);
+  const [pickError, setPickError] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<AnimalComparison | null>(null);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => uploadAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!second) return;
+    const controller = new AbortController();
+    setComparison(null);
+    setCompareError(null);
+    compareAnimals(first, second, { locale, signal: controller.signal })
+      .then(setComparison)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error("Failed to compare animals", error);
+        setCompareError(error instanceof InvalidModelResponseError ? t('error.invalidResponse') : t('compare.failed'));
+      });
+    return () => controller.abort();
+  }, [first, second, locale, attempt]);
+
+  const pickSecond = (animal: AnimalDetails) => {
+    if (animal.scientificName === first.scientificName) {
+      setPickError(t('compare.sameAnimal'));
+      return;
+    }
+    setPickError(null);
+    setMessages([]);
+    setSecond(animal);
+  };
+
+  const handleUpload = async (base64: string, mimeType: string, _sizeStats: ImageSizeStats, metadata: PhotoMetadata) => {
+    uploadAbortRef.current?.abort();
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    setIsIdentifying(true);
+    setPickError(null);
+    try {
+      const result = await identifyAnimal(base64, mimeType, { metadata, locale, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      const top = result.outcome === IdentificationOutcome.ANIMAL_FOUND ? result.candidates[0] : undefined;
+      if (top) pickSecond(top);
+      else setPickError(t('compare.noAnimal'));
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) return;
+      console.error("Failed to identify the second animal", error);
+      setPickError(t('error.identify'));
+    } finally {
+      if (uploadAbortRef.current === controller) setIsIdentifying(false);
+    }
+  };
+
+  const handleChange = () => {
+    setSecond(null);
+    setIsChatOpen(false);
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-8 animate-fade-in-up pb-20">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <button onClick={onBack} className="text-sm font-medium text-slate-500 hover:text-emerald-700 transition-colors">
+            ← {t('compare.back')}
+          </button>
+          <h1 className="text-3xl font-bold text-slate-900 mt-1">
+            {second ? `${first.commonName} · ${second.commonName}` : t('compare.title', { name: first.commonName })}
+          </h1>
+        </div>
+        {second && (
+          <div className="flex gap-3">
+            <Button onClick={handleChange} variant="outline">{t('compare.change')}</Button>
+            <Button onClick={() => setIsChatOpen(true)} variant="primary">{t('compare.askBoth')}</Button>
+          </div>
+        )}
+      </div>
+
+      {!second ? (
+        <div className="bg-white rounded-3xl shadow-xl border border-slate-100 p-6 md:p-8 space-y-6">
+          <h2 className="text-2xl font-bold text-slate-800">{t('compare.pickTitle')}</h2>
+          {suggestions.length > 0 && (
+            <div>
+              <SectionTitle>{t('compare.fromSession')}</SectionTitle>
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+                {suggestions.map(animal => (
+                  <button
+                    key={animal.scientificName}
+                    onClick={() => pickSecond(animal)}
+                    className="text-left p-4 rounded-2xl border border-slate-200 hover:border-emerald-400 hover:shadow-md transition-all"
+                  >
+                    <span className="block font-semibold text-slate-800">{animal.commonName}</span>
+                    <span className="block text-sm text-slate-500 italic font-serif">{animal.scientificName}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <SectionTitle>{t('compare.orUpload')}</SectionTitle>
+            {isIdentifying ? (
+              <div className="flex items-center gap-3 p-6 text-slate-500">
+                <div className="w-6 h-6 border-2 border-emerald-600 border-t-transparent rounded-full animate-spin"></div>
+                {t('analyzing.title')}
+              </div>
+            ) : (
+              <ImageUploader onImageSelected={handleUpload} />
+            )}
+          </div>
+          {pickError && <p className="text-sm text-red-600">{pickError}</p>}
+        </div>
+      ) : (
+        <>
+          {/* One column per animal, straight from what identification found */}
+          <div className="grid grid-cols-2 gap-4 md:gap-6">
+            {[first, second].map(animal => (
+              <div key={animal.scientificName} className="bg-white rounded-3xl shadow-xl border border-slate-100 p-4 md:p-6 space-y-4">
+                <div>
+                  <div className="mb-2">
+                    <ConservationBadge status={animal.conservationStatus} />
+                  </div>
+                  <h2 className="text-xl md:text-2xl font-bold text-slate-900">{animal.commonName}</h2>
+                  <p className="text-slate-500 italic font-serif">{animal.scientificName}</p>
+                </div>
+                <div>
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">{t('results.habitat')}</span>
+                  <p className="text-sm text-slate-700">{animal.habitat}</p>
+                </div>
+                <div>
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-1">{t('results.diet')}</span>
+                  <p className="text-sm text-slate-700">{animal.diet}</p>
+                </div>
+                <AnimalStats data={animal} compact />
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-3xl shadow-xl border border-slate-100 p-6 md:p-8 space-y-8">
+            {compareError ? (
+              <div className="text-center space-y-4">
+                <p className="text-slate-600">{compareError}</p>
+                <Button onClick={() => setAttempt(prev => prev + 1)} variant="outline">{t('error.retry')}</Button>
+              </div>
+            ) : !comparison ? (
+              <div className="space-y-4 animate-pulse" aria-label={t('compare.loading')}>
+                <div className="h-16 bg-slate-100 rounded-lg"></div>
+                <div className="h-32 bg-slate-100 rounded-lg"></div>
+                <div className="h-24 bg-slate-100 rounded-lg"></div>
+              </div>
+            ) : (
+              <>
+                <div className="bg-amber-50 border-l-4 border-amber-400 p-4 rounded-r-lg">
+                  <p className="text-amber-900">{comparison.summary}</p>
+                </div>
+
+                <section>
+                  <SectionTitle>{t('compare.features')}</SectionTitle>
+                  <ComparisonRows points={comparison.distinguishingFeatures} names={[first.commonName, second.commonName]} />
+                </section>
+
+                <section>
+                  <SectionTitle>{t('compare.size')}</SectionTitle>
+                  <p className="text-sm text-slate-700">{comparison.sizeDifference}</p>
+                </section>
+
+                <section>
+                  <SectionTitle>{t('compare.range')}</SectionTitle>
+                  <span className={`inline-block px-3 py-1 rounded-full text-xs font-semibold mb-2 ${OVERLAP_STYLES[comparison.rangeOverlap].className}`}>
+                    {t(OVERLAP_STYLES[comparison.rangeOverlap].label)}
+                  </span>
+                  <p className="text-sm text-slate-700">{comparison.rangeOverlapDetails}</p>
+                </section>
+
+                <section>
+                  <SectionTitle>{t('compare.diet')}</SectionTitle>
+                  <ComparisonRows points={comparison.dietDifferences} names={[first.commonName, second.commonName]} />
+                </section>
+              </>
+            )}
+          </div>
+
+          <ChatSidebar
+            key={second.scientificName}
+            animalData={first}
+            comparedWith={second}
+            messages={messages}
+            onMessagesChange={setMessages}
+            settings={settings}
+            isOpen={isChatOpen}
+            onClose={() => setIsChatOpen(false)}
+          />
+        </>
+      )}
+    </div>
+  );
+};
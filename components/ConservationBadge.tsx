@@ -0,0 +1,49 @@
+import React, { useId } from 'react';
+import { ConservationStatus } from '../types';
+import { CONSERVATION_COPY } from '../services/conservationStatus';
+import { useI18n } from './I18nProvider';
+
+interface ConservationBadgeProps {
+  status: ConservationStatus;
+}
+
+// Follows the Red List's own palette: darker and redder as the risk grows
+const BADGE_STYLES: Record<ConservationStatus, string> = {
+  [ConservationStatus.EXTINCT]: 'bg-black text-white',
+  [ConservationStatus.EXTINCT_IN_THE_WILD]: 'bg-purple-900 text-white',
+  [ConservationStatus.CRITICALLY_ENDANGERED]: 'bg-red-600 text-white',
+  [ConservationStatus.ENDANGERED]: 'bg-orange-500 text-white',
+  [ConservationStatus.VULNERABLE]: 'bg-amber-300 text-amber-950',
+  [ConservationStatus.NEAR_THREATENED]: 'bg-lime-200 text-lime-900',
+  [ConservationStatus.LEAST_CONCERN]: 'bg-emerald-100 text-emerald-800',
+  [ConservationStatus.DATA_DEFICIENT]: 'bg-slate-200 text-slate-700',
+  [ConservationStatus.NOT_EVALUATED]: 'bg-white text-slate-600 ring-1 ring-inset ring-slate-300',
+  [ConservationStatus.DOMESTICATED]: 'bg-sky-100 text-sky-800',
+};
+
+export const ConservationBadge: React.FC<ConservationBadgeProps> = ({ status }) => {
+  const { t } = useI18n();
+  const tooltipId = useId();
+  const copy = CONSERVATION_COPY[status];
+
+  return (
+    <span className="relative inline-block group">
+      <span
+        tabIndex={0}
+        aria-describedby={tooltipId}
+        className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold cursor-help focus:outline-none focus:ring-2 focus:ring-emerald-500 ${BADGE_STYLES[status]}`}
+      >
+        {status !== ConservationStatus.DOMESTICATED && <span className="font-bold">{status}</span>}
+        {t(copy.label)}
+      </span>
+      <span
+        id={tooltipId}
+        role="tooltip"
+        className="absolute left-0 top-full mt-2 w-64 p-3 rounded-xl bg-slate-900 text-white text-xs leading-relaxed shadow-lg z-30 opacity-0 invisible group-hover:opacity-100 group-hover:visible group-focus-within:opacity-100 group-focus-within:visible transition-opacity"
+      >
+        <span className="block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">{t('conservation.source')}</span>
+        {t(copy.explanation)}
+      </span>
+    </span>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types';
+import { loadLocale, MessageKey, MessageParams, saveLocale, translate } from '../services/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    saveLocale(next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside an I18nProvider");
+  return context;
+};
@@ -0,0 +1,82 @@
+import React, { useEffect } from 'react';
+import { GeneratedImage } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface ImageLightboxProps {
+  image: GeneratedImage;
+  alt: string;
+  /** Suggested name for the downloaded file, including its extension. */
+  fileName: string;
+  isRegenerating: boolean;
+  onRegenerate: () => void;
+  onClose: () => void;
+}
+
+export const ImageLightbox: React.FC<ImageLightboxProps> = ({ image, alt, fileName, isRegenerating, onRegenerate, onClose }) => {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 animate-fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={alt}
+        className="relative w-full max-w-3xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          aria-label={t('lightbox.close')}
+          className="absolute -top-10 right-0 p-1 text-white/80 hover:text-white rounded-full"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-7 h-7">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <div className="relative rounded-2xl overflow-hidden bg-slate-900">
+          <img src={image.url} alt={alt} className={`w-full max-h-[75vh] object-contain transition-opacity ${isRegenerating ? 'opacity-40' : ''}`} />
+          {isRegenerating && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="w-12 h-12 border-4 border-white/30 border-t-white rounded-full animate-spin"></div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+          <p className="flex-1 text-xs text-white/60 line-clamp-2" title={image.prompt}>{image.prompt}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={onRegenerate}
+              disabled={isRegenerating}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-white/10 text-white text-sm font-medium hover:bg-white/20 disabled:opacity-50 transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+              </svg>
+              {t('lightbox.regenerate')}
+            </button>
+            <a
+              href={image.url}
+              download={fileName}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-500 transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+              </svg>
+              {t('lightbox.download')}
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
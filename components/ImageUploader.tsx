@@ -1,13 +1,22 @@
 import React, { useRef, useState } from 'react';
 import { Button } from './Button';
+import { CameraCapture } from './CameraCapture';
+import { ImageSizeStats, PhotoMetadata } from '../types';
+import { PreprocessOptions, isSupportedImageFile, preprocessImage } from '../services/imagePreprocessing';
+import { getCurrentLocation } from '../services/geolocation';
+import { useI18n } from './I18nProvider';
 
 interface ImageUploaderProps {
-  onImageSelected: (base64: string, mimeType: string) => void;
+  onImageSelected: (base64: string, mimeType: string, sizeStats: ImageSizeStats, metadata: PhotoMetadata) => void;
+  preprocessOptions?: Partial<PreprocessOptions>;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, preprocessOptions }) => {
+  const { t } = useI18n();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -16,29 +25,35 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected })
     }
   };
 
-  const processFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
+  /**
+   * `fallbackMetadata` fills in whatever the file's own EXIF is missing,
+   * e.g. for camera captures that have none.
+   */
+  const processFile = async (file: Blob, fallbackMetadata?: Promise<PhotoMetadata>) => {
+    if (!isSupportedImageFile(file)) {
         // Basic validation
-        alert("Please upload a valid image file.");
+        alert(t('uploader.invalidFile'));
         return;
     }
 
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      // Extract base64 data and mime type
-      // result format: "data:image/jpeg;base64,....."
-      const matches = result.match(/^data:(.+);base64,(.+)$/);
-      if (matches && matches.length === 3) {
-        const mimeType = matches[1];
-        const base64Data = matches[2];
-        onImageSelected(base64Data, mimeType);
-      }
-    };
-    reader.readAsDataURL(file);
+    setIsProcessing(true);
+    try {
+      const [prepared, fallback] = await Promise.all([preprocessImage(file, preprocessOptions), fallbackMetadata]);
+      const { base64, mimeType, originalBytes, processedBytes, metadata } = prepared;
+      onImageSelected(base64, mimeType, { originalBytes, processedBytes }, {
+        capturedAt: metadata.capturedAt ?? fallback?.capturedAt,
+        location: metadata.location ?? fallback?.location,
+      });
+    } catch (error) {
+      console.error("Failed to prepare image", error);
+      alert(t('uploader.readFailed'));
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   const triggerUpload = () => {
+    if (isProcessing) return;
     fileInputRef.current?.click();
   };
 
@@ -61,6 +76,22 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected })
     }
   };
 
+  const openCamera = (e: React.MouseEvent) => {
+    // Keep the click from bubbling up to the dropzone's file picker
+    e.stopPropagation();
+    setIsCameraOpen(true);
+  };
+
+  const handleCapture = (photo: Blob) => {
+    setIsCameraOpen(false);
+    const capturedAt = new Date().toISOString();
+    processFile(photo, getCurrentLocation().then(location => ({ capturedAt, location })));
+  };
+
+  if (isCameraOpen) {
+    return <CameraCapture onCapture={handleCapture} onCancel={() => setIsCameraOpen(false)} />;
+  }
+
   return (
     <div 
       className={`w-full max-w-xl mx-auto text-center p-8 border-2 border-dashed rounded-2xl transition-all duration-200 cursor-pointer
@@ -77,7 +108,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected })
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept="image/*"
+        accept="image/*,.heic,.heif"
         className="hidden"
       />
       
@@ -90,19 +121,26 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected })
         </div>
         
         <div className="space-y-1">
-          <h3 className="text-xl font-semibold text-slate-800">Identify an Animal</h3>
+          <h3 className="text-xl font-semibold text-slate-800">{t('uploader.title')}</h3>
           <p className="text-slate-500 text-sm">
-            <span className="font-medium text-emerald-600">Click to upload</span> or drag and drop
+            <span className="font-medium text-emerald-600">{t('uploader.clickToUpload')}</span> {t('uploader.orDragAndDrop')}
           </p>
         </div>
 
         <div className="flex gap-3 pt-2">
-           <Button variant="primary" className="pointer-events-none">
-             Select Image
+           <Button variant="primary" className="pointer-events-none" isLoading={isProcessing}>
+             {t('uploader.selectImage')}
+           </Button>
+           <Button variant="secondary" className="pointer-events-auto flex gap-2 items-center" onClick={openCamera} disabled={isProcessing}>
+             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+               <path strokeLinecap="round" strokeLinejoin="round" d="M6.827 6.175A2.31 2.31 0 015.186 7.23c-.38.054-.757.112-1.134.175C2.999 7.58 2.25 8.507 2.25 9.574V18a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9.574c0-1.067-.75-1.994-1.802-2.169a47.865 47.865 0 00-1.134-.175 2.31 2.31 0 01-1.64-1.055l-.822-1.316a2.192 2.192 0 00-1.736-1.039 48.774 48.774 0 00-5.232 0 2.192 2.192 0 00-1.736 1.039l-.821 1.316z" />
+               <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 12.75a4.5 4.5 0 11-9 0 4.5 4.5 0 019 0z" />
+             </svg>
+             {t('uploader.useCamera')}
            </Button>
         </div>
         
-        <p className="text-xs text-slate-400 pt-4">Supports JPG, PNG, WEBP</p>
+        <p className="text-xs text-slate-400 pt-4">{t('uploader.formats')}</p>
       </div>
     </div>
   );
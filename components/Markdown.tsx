@@ -0,0 +1,186 @@
+import React from 'react';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+// Renders the small subset of markdown the chat model produces. Everything is
+// built as React elements, so model output can never inject raw HTML.
+
+type Block =
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'code'; text: string };
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\[[^\]]+\]\([^)\s]+\)|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/;
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const parseBlocks = (text: string): Block[] => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i++]);
+      i++; // closing fence, or end of a still-streaming block
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) rows.push(splitRow(lines[i++]));
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = Boolean(item[2]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && Boolean(next[2]) === ordered) {
+          items.push(next[3]);
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length
+      && lines[i].trim()
+      && !HEADING.test(lines[i])
+      && !LIST_ITEM.test(lines[i])
+      && !lines[i].trim().startsWith('```')
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+};
+
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(INLINE).filter(Boolean).map((token, idx) => {
+    if ((token.startsWith('**') && token.endsWith('**')) || (token.startsWith('__') && token.endsWith('__'))) {
+      return <strong key={idx} className="font-semibold">{renderInline(token.slice(2, -2))}</strong>;
+    }
+    if (token.startsWith('`') && token.endsWith('`') && token.length > 1) {
+      return <code key={idx} className="px-1 py-0.5 rounded bg-slate-100 text-[0.85em] font-mono">{token.slice(1, -1)}</code>;
+    }
+    const link = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      if (!SAFE_URL.test(link[2])) return <React.Fragment key={idx}>{renderInline(link[1])}</React.Fragment>;
+      return (
+        <a key={idx} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-emerald-700 underline hover:text-emerald-800">
+          {renderInline(link[1])}
+        </a>
+      );
+    }
+    if (token.length > 2 && ((token.startsWith('*') && token.endsWith('*')) || (token.startsWith('_') && token.endsWith('_')))) {
+      return <em key={idx}>{renderInline(token.slice(1, -1))}</em>;
+    }
+    return <React.Fragment key={idx}>{token}</React.Fragment>;
+  });
+
+const HEADING_STYLES = ['text-base font-bold', 'text-base font-semibold', 'text-sm font-semibold'];
+
+export const Markdown: React.FC<MarkdownProps> = ({ text, className = '' }) => (
+  <div className={`space-y-2 ${className}`}>
+    {parseBlocks(text).map((block, idx) => {
+      switch (block.type) {
+        case 'heading':
+          return (
+            <p key={idx} className={HEADING_STYLES[Math.min(block.level, HEADING_STYLES.length) - 1]}>
+              {renderInline(block.text)}
+            </p>
+          );
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={idx} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, itemIdx) => <li key={itemIdx}>{renderInline(item)}</li>)}
+            </ListTag>
+          );
+        }
+        case 'table':
+          return (
+            <div key={idx} className="overflow-x-auto">
+              <table className="min-w-full text-xs border border-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    {block.header.map((cell, cellIdx) => (
+                      <th key={cellIdx} className="px-2 py-1 text-left font-semibold border-b border-slate-200">{renderInline(cell)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, rowIdx) => (
+                    <tr key={rowIdx} className="border-b border-slate-100 last:border-0">
+                      {block.header.map((_, cellIdx) => (
+                        <td key={cellIdx} className="px-2 py-1 align-top">{renderInline(row[cellIdx] ?? '')}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        case 'code':
+          return (
+            <pre key={idx} className="p-2 rounded-lg bg-slate-100 text-xs font-mono overflow-x-auto whitespace-pre">{block.text}</pre>
+          );
+        default:
+          return (
+            <p key={idx}>
+              {block.lines.map((line, lineIdx) => (
+                <React.Fragment key={lineIdx}>
+                  {lineIdx > 0 && <br />}
+                  {renderInline(line)}
+                </React.Fragment>
+              ))}
+            </p>
+          );
+      }
+    })}
+  </div>
+);
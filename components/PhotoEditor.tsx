@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedImage, PhotoEditPreset, PhotoEditRequest } from '../types';
+import { editPhoto } from '../services/geminiService';
+import { imageFileName, parseDataUrl } from '../services/imagePreprocessing';
+import { isAbortError } from '../services/requestPolicy';
+import { MessageKey } from '../services/i18n';
+import { BeforeAfterSlider } from './BeforeAfterSlider';
+import { useI18n } from './I18nProvider';
+
+interface PhotoEditorProps {
+  /** The user's photo as a data URL. */
+  originalImage: string;
+  animalName: string;
+}
+
+const PRESET_LABELS: Record<PhotoEditPreset, MessageKey> = {
+  [PhotoEditPreset.NATURAL_HABITAT]: 'edit.preset.naturalHabitat',
+  [PhotoEditPreset.REMOVE_BACKGROUND]: 'edit.preset.removeBackground',
+  [PhotoEditPreset.JUVENILE_FORM]: 'edit.preset.juvenileForm',
+  [PhotoEditPreset.SIZE_COMPARISON]: 'edit.preset.sizeComparison',
+  [PhotoEditPreset.CUSTOM]: 'edit.preset.custom',
+};
+
+const MAX_INSTRUCTION_LENGTH = 300;
+
+export const PhotoEditor: React.FC<PhotoEditorProps> = ({ originalImage, animalName }) => {
+  const { locale, t } = useI18n();
+  const [preset, setPreset] = useState<PhotoEditPreset>(PhotoEditPreset.NATURAL_HABITAT);
+  const [instruction, setInstruction] = useState('');
+  const [result, setResult] = useState<GeneratedImage | null>(null);
+  // The edit behind `result`, so "new version" repeats it even after the preset changes
+  const [appliedEdit, setAppliedEdit] = useState<PhotoEditRequest | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A different photo or animal makes the current edit meaningless
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    return () => {
+      abortRef.current?.abort();
+      setIsEditing(false);
+    };
+  }, [originalImage, animalName]);
+
+  const photo = parseDataUrl(originalImage);
+  const canApply = !!photo && !isEditing && (preset !== PhotoEditPreset.CUSTOM || instruction.trim().length > 0);
+
+  const applyEdit = async (edit: PhotoEditRequest, refresh = false) => {
+    if (!photo) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsEditing(true);
+    setError(null);
+    try {
+      const image = await editPhoto(photo.data, photo.mimeType, edit, { animalName, locale, refresh, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setResult(image);
+      setAppliedEdit(edit);
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      console.error("Failed to edit photo", err);
+      setError(t('edit.failed'));
+    } finally {
+      if (abortRef.current === controller) setIsEditing(false);
+    }
+  };
+
+  const handleApply = () =>
+    applyEdit(preset === PhotoEditPreset.CUSTOM ? { preset, instruction: instruction.trim() } : { preset });
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl border border-slate-100 p-6 md:p-8 space-y-5">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">{t('edit.title')}</h2>
+        <p className="text-sm text-slate-500 mt-1">{t('edit.subtitle')}</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={t('edit.title')}>
+        {Object.values(PhotoEditPreset).map(option => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={preset === option}
+            onClick={() => setPreset(option)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+              preset === option
+                ? 'bg-emerald-50 border-emerald-500 text-emerald-800'
+                : 'bg-white border-slate-200 text-slate-600 hover:border-emerald-300'
+            }`}
+          >
+            {t(PRESET_LABELS[option])}
+          </button>
+        ))}
+      </div>
+
+      {preset === PhotoEditPreset.CUSTOM && (
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          maxLength={MAX_INSTRUCTION_LENGTH}
+          rows={2}
+          placeholder={t('edit.customPlaceholder')}
+          className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm resize-none"
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={handleApply}
+          disabled={!canApply}
+          className="px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+        >
+          {isEditing ? t('edit.applying') : t('edit.apply')}
+        </button>
+        {isEditing && (
+          <button onClick={handleCancel} className="px-3 py-2 text-sm font-medium text-slate-500 hover:text-slate-800 transition-colors">
+            {t('analyzing.cancel')}
+          </button>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {result && appliedEdit && (
+        <div className={`space-y-3 transition-opacity ${isEditing ? 'opacity-50' : ''}`}>
+          <BeforeAfterSlider
+            before={originalImage}
+            after={result.url}
+            beforeLabel={t('edit.before')}
+            afterLabel={t('edit.after')}
+            label={t('edit.sliderLabel')}
+          />
+          <div className="flex flex-wrap gap-3 justify-end">
+            <button
+              onClick={() => applyEdit(appliedEdit, true)}
+              disabled={isEditing}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 hover:text-emerald-700 disabled:opacity-50 transition-colors"
+            >
+              {t('edit.newVersion')}
+            </button>
+            <a
+              href={result.url}
+              download={imageFileName([animalName, 'edited'], result.url)}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium text-emerald-700 hover:text-emerald-800 transition-colors"
+            >
+              {t('lightbox.download')}
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { AnimalDetails, Quiz, QuizQuestionType, QuizResult } from '../types';
+import { generateQuiz } from '../services/geminiService';
+import { InvalidModelResponseError } from '../services/responseValidation';
+import { isAbortError } from '../services/requestPolicy';
+import { MessageKey } from '../services/i18n';
+import { Button } from './Button';
+import { useI18n } from './I18nProvider';
+
+interface QuizViewProps {
+  animal: AnimalDetails;
+  /** Earlier attempts on this animal, for the "previous best" line. */
+  previousResults: QuizResult[];
+  /** Called once per finished attempt, with the summary to keep. */
+  onComplete: (result: QuizResult) => void;
+  onBack: () => void;
+}
+
+const TYPE_LABELS: Record<QuizQuestionType, MessageKey> = {
+  [QuizQuestionType.MULTIPLE_CHOICE]: 'quiz.type.multipleChoice',
+  [QuizQuestionType.TRUE_FALSE]: 'quiz.type.trueFalse',
+};
+
+const summaryMessage = (score: number, total: number): MessageKey => {
+  const ratio = total > 0 ? score / total : 0;
+  if (ratio >= 0.8) return 'quiz.summary.great';
+  if (ratio >= 0.5) return 'quiz.summary.good';
+  return 'quiz.summary.low';
+};
+
+export const QuizView: React.FC<QuizViewProps> = ({ animal, previousResults, onComplete, onBack }) => {
+  const { locale, t } = useI18n();
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to load again; `refresh` skips the cached quiz for new questions
+  const [request, setRequest] = useState({ attempt: 0, refresh: false });
+  // The chosen option per question, undefined until answered
+  const [answers, setAnswers] = useState<(number | undefined)[]>([]);
+  const [current, setCurrent] = useState(0);
+  // This attempt's summary once the last question is answered
+  const [completed, setCompleted] = useState<QuizResult | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setQuiz(null);
+    setError(null);
+    setAnswers([]);
+    setCurrent(0);
+    setCompleted(null);
+    generateQuiz(animal, { locale, refresh: request.refresh, signal: controller.signal })
+      .then(setQuiz)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Failed to generate quiz", err);
+        setError(err instanceof InvalidModelResponseError ? t('error.invalidResponse') : t('quiz.failed'));
+      });
+    return () => controller.abort();
+  }, [animal, locale, request]);
+
+  const questions = quiz?.questions ?? [];
+  const question = questions[current];
+  const chosen = answers[current];
+  const score = questions.filter((q, idx) => answers[idx] === q.correctIndex).length;
+  const previousBest = previousResults
+    .filter((result: QuizResult) => result !== completed)
+    .reduce((best: QuizResult | null, result: QuizResult) => (!best || result.score / result.total > best.score / best.total ? result : best), null);
+
+  const handleAnswer = (index: number) => {
+    if (chosen !== undefined) return;
+    setAnswers(prev => {
+      const next = [...prev];
+      next[current] = index;
+      return next;
+    });
+  };
+
+  const handleNext = () => {
+    if (current < questions.length - 1) {
+      setCurrent(current + 1);
+      return;
+    }
+    const result: QuizResult = {
+      scientificName: animal.scientificName,
+      completedAt: Date.now(),
+      score,
+      total: questions.length,
+      missedQuestions: questions.filter((q, idx) => answers[idx] !== q.correctIndex).map(q => q.question),
+    };
+    setCompleted(result);
+    onComplete(result);
+  };
+
+  const handleRetake = () => {
+    setAnswers([]);
+    setCurrent(0);
+    setCompleted(null);
+  };
+
+  const optionClass = (index: number, correctIndex: number) => {
+    if (chosen === undefined) return 'border-slate-200 hover:border-emerald-400 text-slate-700';
+    if (index === correctIndex) return 'border-emerald-500 bg-emerald-50 text-emerald-900';
+    if (index === chosen) return 'border-red-400 bg-red-50 text-red-800';
+    return 'border-slate-200 text-slate-400';
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-8 animate-fade-in-up pb-20">
+      <div>
+        <button onClick={onBack} className="text-sm font-medium text-slate-500 hover:text-emerald-700 transition-colors">
+          ← {t('quiz.back')}
+        </button>
+        <h1 className="text-3xl font-bold text-slate-900 mt-1">{t('quiz.title', { name: animal.commonName })}</h1>
+      </div>
+
+      <div className="bg-white rounded-3xl shadow-xl border border-slate-100 p-6 md:p-8">
+        {error ? (
+          <div className="text-center space-y-4">
+            <p className="text-slate-600">{error}</p>
+            <Button onClick={() => setRequest(prev => ({ attempt: prev.attempt + 1, refresh: false }))} variant="outline">{t('error.retry')}</Button>
+          </div>
+        ) : !quiz ? (
+          <div className="space-y-4 animate-pulse" aria-label={t('quiz.loading')}>
+            <div className="h-4 w-32 bg-slate-100 rounded"></div>
+            <div className="h-10 bg-slate-100 rounded-lg"></div>
+            {[0, 1, 2, 3].map(idx => <div key={idx} className="h-12 bg-slate-100 rounded-xl"></div>)}
+          </div>
+        ) : completed ? (
+          <div className="space-y-6">
+            <div className="text-center space-y-2">
+              <p className="text-4xl font-bold text-emerald-700">{t('quiz.summaryTitle', { score, total: questions.length })}</p>
+              <p className="text-slate-600">{t(summaryMessage(score, questions.length))}</p>
+              {previousBest && (
+                <p className="text-sm text-slate-400">{t('quiz.previousBest', { score: previousBest.score, total: previousBest.total })}</p>
+              )}
+            </div>
+
+            <ol className="divide-y divide-slate-100">
+              {questions.map((q, idx) => {
+                const isCorrect = answers[idx] === q.correctIndex;
+                return (
+                  <li key={idx} className="py-3 flex gap-3">
+                    <span className={`mt-0.5 font-bold ${isCorrect ? 'text-emerald-600' : 'text-red-500'}`} aria-hidden="true">{isCorrect ? '✓' : '✗'}</span>
+                    <div className="text-sm">
+                      <p className="font-medium text-slate-800">{q.question}</p>
+                      {!isCorrect && (
+                        <p className="text-slate-500 mt-1">
+                          {t('quiz.yourAnswer', { answer: q.options[answers[idx] ?? -1] ?? '—' })} · {t('quiz.correctAnswer', { answer: q.options[q.correctIndex] })}
+                        </p>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button onClick={handleRetake} variant="primary" className="flex-1">{t('quiz.retake')}</Button>
+              <Button onClick={() => setRequest(prev => ({ attempt: prev.attempt + 1, refresh: true }))} variant="outline" className="flex-1">
+                {t('quiz.newQuestions')}
+              </Button>
+              <Button onClick={onBack} variant="outline" className="flex-1">{t('quiz.back')}</Button>
+            </div>
+          </div>
+        ) : question && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-semibold text-slate-500">{t('quiz.progress', { current: current + 1, total: questions.length })}</span>
+              <span className="text-slate-400">{t('quiz.score', { score })}</span>
+            </div>
+            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-emerald-500 transition-all duration-300"
+                style={{ width: `${((current + (chosen === undefined ? 0 : 1)) / questions.length) * 100}%` }}
+              ></div>
+            </div>
+
+            <div>
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t(TYPE_LABELS[question.type])}</span>
+              <h2 className="text-xl font-bold text-slate-800 mt-1">{question.question}</h2>
+            </div>
+
+            <div className={`grid gap-3 ${question.type === QuizQuestionType.TRUE_FALSE ? 'grid-cols-2' : 'grid-cols-1'}`}>
+              {question.options.map((option, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => handleAnswer(idx)}
+                  disabled={chosen !== undefined}
+                  aria-pressed={chosen === idx}
+                  className={`text-left px-4 py-3 rounded-xl border-2 font-medium transition-colors disabled:cursor-default ${optionClass(idx, question.correctIndex)}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+
+            {chosen !== undefined && (
+              <div
+                role="status"
+                className={`p-4 rounded-r-lg border-l-4 ${chosen === question.correctIndex ? 'bg-emerald-50 border-emerald-500 text-emerald-900' : 'bg-amber-50 border-amber-400 text-amber-900'}`}
+              >
+                <p className="font-bold mb-1">
+                  {chosen === question.correctIndex
+                    ? t('quiz.correct')
+                    : t('quiz.incorrect', { answer: question.options[question.correctIndex] })}
+                </p>
+                <p className="text-sm">{question.explanation}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button onClick={handleNext} disabled={chosen === undefined} variant="primary">
+                {current < questions.length - 1 ? t('quiz.next') : t('quiz.finish')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { AssistantSettings, PersonaPreset } from '../types';
+import { Button } from './Button';
+import { LANGUAGE_OPTIONS, PERSONAS, VOICE_OPTIONS } from '../services/assistantSettings';
+import { LOCALE_OPTIONS } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface SettingsPanelProps {
+  settings: AssistantSettings;
+  onChange: (settings: AssistantSettings) => void;
+  onClose: () => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const { locale, t } = useI18n();
+  const update = (patch: Partial<AssistantSettings>) => onChange({ ...settings, ...patch });
+  const appLanguage = LOCALE_OPTIONS.find(option => option.code === locale)?.label ?? locale;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4 animate-fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        className="w-full max-w-lg bg-white rounded-2xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h2 id="settings-title" className="text-lg font-bold text-slate-900">{t('settings.title')}</h2>
+            <p className="text-sm text-slate-500">{t('settings.subtitle')}</p>
+          </div>
+          <button onClick={onClose} aria-label={t('settings.close')} className="p-1 text-slate-400 hover:text-slate-700 rounded-full">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6 max-h-[70vh] overflow-y-auto">
+          <fieldset>
+            <legend className="text-sm font-semibold text-slate-700 mb-2">{t('settings.persona')}</legend>
+            <div className="grid sm:grid-cols-2 gap-2">
+              {(Object.keys(PERSONAS) as PersonaPreset[]).map(key => (
+                <label
+                  key={key}
+                  className={`p-3 rounded-xl border cursor-pointer transition-colors ${settings.persona === key ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 hover:border-emerald-300'}`}
+                >
+                  <input
+                    type="radio"
+                    name="persona"
+                    value={key}
+                    checked={settings.persona === key}
+                    onChange={() => update({ persona: key })}
+                    className="sr-only"
+                  />
+                  <span className="block font-medium text-slate-800 text-sm">{t(PERSONAS[key].label)}</span>
+                  <span className="block text-xs text-slate-500 mt-0.5">{t(PERSONAS[key].description)}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm font-semibold text-slate-700">{t('settings.language')}</span>
+              <select
+                value={settings.language ?? ''}
+                onChange={(e) => update({ language: e.target.value || undefined })}
+                className="mt-2 w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm bg-white"
+              >
+                <option value="">{t('settings.languageAuto', { language: appLanguage })}</option>
+                {LANGUAGE_OPTIONS.map(language => (
+                  <option key={language.code} value={language.code}>{language.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-semibold text-slate-700">{t('settings.voice')}</span>
+              <select
+                value={settings.voiceName}
+                onChange={(e) => update({ voiceName: e.target.value })}
+                className="mt-2 w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm bg-white"
+              >
+                {VOICE_OPTIONS.map(voice => (
+                  <option key={voice.name} value={voice.name}>{voice.name} · {t(voice.description)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div className="p-5 border-t border-slate-100 flex justify-end">
+          <Button onClick={onClose}>{t('settings.done')}</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Locale, Sighting } from '../types';
+import { Button } from './Button';
+import { SightingsMap } from './SightingsMap';
+import { deleteSighting, listSightings } from '../services/journalStore';
+import { describeSkipped, exportSightings } from '../services/darwinCore';
+import { CONSERVATION_COPY, CONSERVATION_STATUSES } from '../services/conservationStatus';
+import { useI18n } from './I18nProvider';
+
+interface SightingJournalProps {
+  onOpenSighting: (sighting: Sighting) => void;
+  onNewScan: () => void;
+}
+
+const ALL_STATUSES = 'ALL';
+
+type JournalView = 'list' | 'map';
+
+const formatDate = (timestamp: number, locale: Locale) =>
+  new Date(timestamp).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+const latestQuiz = (sighting: Sighting) => sighting.quizResults?.[sighting.quizResults.length - 1];
+
+export const SightingJournal: React.FC<SightingJournalProps> = ({ onOpenSighting, onNewScan }) => {
+  const { locale, t } = useI18n();
+  const [sightings, setSightings] = useState<Sighting[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState(ALL_STATUSES);
+  const [view, setView] = useState<JournalView>('list');
+
+  useEffect(() => {
+    let isMounted = true;
+    listSightings()
+      .then(records => {
+        if (isMounted) setSightings(records);
+      })
+      .catch(error => {
+        console.error("Failed to load journal", error);
+        if (isMounted) setLoadError(t('journal.loadFailed'));
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+    return () => { isMounted = false; };
+  }, []);
+
+  // Only the categories present in the journal, from most to least threatened
+  const statuses = useMemo(
+    () => CONSERVATION_STATUSES.filter(status => sightings.some(s => s.animal.conservationStatus === status)),
+    [sightings]
+  );
+
+  const visibleSightings = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return sightings.filter(sighting => {
+      if (statusFilter !== ALL_STATUSES && sighting.animal.conservationStatus !== statusFilter) return false;
+      if (!needle) return true;
+      return [sighting.animal.commonName, sighting.animal.scientificName, sighting.animal.habitat]
+        .some(field => field.toLowerCase().includes(needle));
+    });
+  }, [sightings, query, statusFilter]);
+
+  const handleDelete = async (e: React.MouseEvent, sighting: Sighting) => {
+    e.stopPropagation();
+    if (!window.confirm(t('journal.confirmDelete', { name: sighting.animal.commonName }))) return;
+    try {
+      await deleteSighting(sighting.id);
+      setSightings(prev => prev.filter(s => s.id !== sighting.id));
+    } catch (error) {
+      console.error("Failed to delete sighting", error);
+      alert(t('journal.deleteFailed'));
+    }
+  };
+
+  const handleExport = () => {
+    const summary = exportSightings(visibleSightings);
+    if (summary.skipped.length === 0) return;
+    const skipped = summary.skipped.length === 1
+      ? t('journal.exportSkipped.one', { exported: summary.exported })
+      : t('journal.exportSkipped.other', { exported: summary.exported, count: summary.skipped.length });
+    alert(`${skipped}\n\n${describeSkipped(summary, locale)}`);
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-6 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">{t('journal.title')}</h1>
+          <p className="text-slate-500">
+            {sightings.length === 1 ? t('journal.count.one') : t('journal.count.other', { count: sightings.length })}
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex p-1 bg-slate-100 rounded-lg text-sm" role="group" aria-label={t('journal.view')}>
+            {(['list', 'map'] as JournalView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                aria-pressed={view === option}
+                className={`px-3 py-1 rounded-md font-medium transition-colors ${view === option ? 'bg-white text-emerald-700 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+              >
+                {option === 'list' ? t('journal.view.list') : t('journal.view.map')}
+              </button>
+            ))}
+          </div>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('journal.search')}
+            className="px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm bg-white"
+          />
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm bg-white"
+          >
+            <option value={ALL_STATUSES}>{t('journal.allStatuses')}</option>
+            {statuses.map(status => (
+              <option key={status} value={status}>{t(CONSERVATION_COPY[status].label)}</option>
+            ))}
+          </select>
+          <Button variant="outline" onClick={handleExport} disabled={visibleSightings.length === 0} className="text-sm">
+            {t('journal.export')}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[1, 2, 3, 4].map(i => (
+            <div key={i} className="aspect-square bg-slate-200 rounded-2xl animate-pulse"></div>
+          ))}
+        </div>
+      ) : loadError ? (
+        <div className="p-8 text-center bg-red-50 rounded-2xl border border-red-100 text-red-600">{loadError}</div>
+      ) : sightings.length === 0 ? (
+        <div className="p-12 text-center bg-white rounded-2xl border border-dashed border-slate-300 space-y-4">
+          <p className="text-slate-500">{t('journal.empty')}</p>
+          <Button onClick={onNewScan}>{t('journal.identify')}</Button>
+        </div>
+      ) : visibleSightings.length === 0 ? (
+        <div className="p-8 text-center bg-slate-50 rounded-2xl border border-dashed border-slate-300 text-slate-500">
+          {t('journal.noMatches')}
+        </div>
+      ) : view === 'map' ? (
+        <SightingsMap sightings={visibleSightings} onOpenSighting={onOpenSighting} />
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {visibleSightings.map(sighting => (
+            <div
+              key={sighting.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => onOpenSighting(sighting)}
+              onKeyDown={(e) => { if (e.key === 'Enter') onOpenSighting(sighting); }}
+              className="group relative text-left bg-white rounded-2xl overflow-hidden shadow-sm border border-slate-100 hover:shadow-lg transition-all cursor-pointer"
+            >
+              <img
+                src={sighting.thumbnailDataUrl}
+                alt={sighting.animal.commonName}
+                className="w-full aspect-square object-cover"
+              />
+              <div className="p-3">
+                <p className="font-semibold text-slate-800 truncate">{sighting.animal.commonName}</p>
+                <p className="text-xs text-slate-500 italic font-serif truncate">{sighting.animal.scientificName}</p>
+                <p className="text-xs text-slate-400 mt-1">{formatDate(sighting.createdAt, locale)}</p>
+              </div>
+              {latestQuiz(sighting) && (
+                <span className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-emerald-600/90 text-white text-xs font-semibold">
+                  {t('quiz.button')} {t('quiz.lastScore', { score: latestQuiz(sighting)!.score, total: latestQuiz(sighting)!.total })}
+                </span>
+              )}
+              <button
+                onClick={(e) => handleDelete(e, sighting)}
+                aria-label={t('journal.delete', { name: sighting.animal.commonName })}
+                className="absolute top-2 right-2 p-1.5 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-red-500 transition-all"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { Sighting } from '../types';
+import { Button } from './Button';
+import { project, WORLD_LAND_PATH } from '../services/worldBasemap';
+import { formatCoordinates } from '../services/geolocation';
+import { useI18n } from './I18nProvider';
+
+interface SightingsMapProps {
+  sightings: Sighting[];
+  onOpenSighting: (sighting: Sighting) => void;
+}
+
+// Crop the poles; nobody is photographing wildlife north of 84° or on the ice shelf.
+const VIEW_BOX = { x: 0, y: 6, width: 360, height: 142 };
+const GRATICULE_STEP = 30;
+
+export const SightingsMap: React.FC<SightingsMapProps> = ({ sightings, onOpenSighting }) => {
+  const { t } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const located = useMemo(() => sightings.filter(s => s.metadata?.location), [sightings]);
+  const selected = located.find(s => s.id === selectedId);
+  const unlocatedCount = sightings.length - located.length;
+
+  const meridians: number[] = [];
+  for (let lon = -180 + GRATICULE_STEP; lon < 180; lon += GRATICULE_STEP) meridians.push(lon);
+  const parallels: number[] = [];
+  for (let lat = -60; lat <= 60; lat += GRATICULE_STEP) parallels.push(lat);
+
+  return (
+    <div className="space-y-3">
+      <div className="relative bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+        <svg
+          viewBox={`${VIEW_BOX.x} ${VIEW_BOX.y} ${VIEW_BOX.width} ${VIEW_BOX.height}`}
+          className="w-full h-auto block"
+          role="img"
+          aria-label={t('map.label', { count: located.length })}
+          onClick={() => setSelectedId(null)}
+        >
+          <rect x={VIEW_BOX.x} y={VIEW_BOX.y} width={VIEW_BOX.width} height={VIEW_BOX.height} className="fill-sky-50" />
+          <g className="stroke-sky-100" strokeWidth={0.3}>
+            {meridians.map(lon => (
+              <line key={`m${lon}`} x1={lon + 180} y1={VIEW_BOX.y} x2={lon + 180} y2={VIEW_BOX.y + VIEW_BOX.height} />
+            ))}
+            {parallels.map(lat => (
+              <line key={`p${lat}`} x1={0} y1={90 - lat} x2={360} y2={90 - lat} />
+            ))}
+          </g>
+          <path d={WORLD_LAND_PATH} className="fill-emerald-100 stroke-emerald-200" strokeWidth={0.3} strokeLinejoin="round" />
+          {located.map(sighting => {
+            const { latitude, longitude } = sighting.metadata!.location!;
+            const [x, y] = project(longitude, latitude);
+            const isSelected = sighting.id === selectedId;
+            return (
+              <circle
+                key={sighting.id}
+                cx={x}
+                cy={y}
+                r={isSelected ? 2.6 : 1.8}
+                className={`cursor-pointer stroke-white transition-all ${isSelected ? 'fill-emerald-700' : 'fill-emerald-500 hover:fill-emerald-600'}`}
+                strokeWidth={0.5}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setSelectedId(sighting.id);
+                }}
+              >
+                <title>{sighting.animal.commonName}</title>
+              </circle>
+            );
+          })}
+        </svg>
+
+        {selected && (
+          <div className="absolute bottom-3 left-3 right-3 sm:right-auto sm:w-72 bg-white/95 backdrop-blur rounded-xl shadow-lg border border-slate-100 p-3 flex gap-3 items-center animate-fade-in">
+            <img
+              src={selected.thumbnailDataUrl}
+              alt={selected.animal.commonName}
+              className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+            />
+            <div className="min-w-0 flex-1">
+              <p className="font-semibold text-slate-800 truncate">{selected.animal.commonName}</p>
+              <p className="text-xs text-slate-500 italic font-serif truncate">{selected.animal.scientificName}</p>
+              <p className="text-xs text-slate-400 mt-0.5">{formatCoordinates(selected.metadata!.location!)}</p>
+            </div>
+            <Button variant="secondary" className="text-sm flex-shrink-0" onClick={() => onOpenSighting(selected)}>
+              {t('map.open')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {located.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center">
+          {t('map.noLocations')}
+        </p>
+      ) : unlocatedCount > 0 && (
+        <p className="text-sm text-slate-400 text-center">
+          {unlocatedCount === 1 ? t('map.unlocated.one') : t('map.unlocated.other', { count: unlocatedCount })}
+        </p>
+      )}
+    </div>
+  );
+};
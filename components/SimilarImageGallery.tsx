@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedImage, ImageStyle } from '../types';
+import { generateSimilarImage } from '../services/geminiService';
+import { imageFileName } from '../services/imagePreprocessing';
+import { isAbortError } from '../services/requestPolicy';
+import { MessageKey } from '../services/i18n';
+import { ImageLightbox } from './ImageLightbox';
+import { useI18n } from './I18nProvider';
+
+interface SimilarImageGalleryProps {
+  animalName: string;
+}
+
+interface GalleryTile {
+  id: string;
+  style: ImageStyle;
+  variant: number;
+  status: 'loading' | 'ready' | 'error';
+  /** Kept while the tile regenerates, so the old image stays visible. */
+  image?: GeneratedImage;
+}
+
+type TileRequest = Pick<GalleryTile, 'style' | 'variant'>;
+
+const STYLE_LABELS: Record<ImageStyle, MessageKey> = {
+  [ImageStyle.HABITAT]: 'imageStyle.habitat',
+  [ImageStyle.PORTRAIT]: 'imageStyle.portrait',
+  [ImageStyle.SCIENTIFIC_ILLUSTRATION]: 'imageStyle.scientificIllustration',
+  [ImageStyle.JUVENILE]: 'imageStyle.juvenile',
+  [ImageStyle.RANGE_DIORAMA]: 'imageStyle.rangeDiorama',
+};
+
+const MAX_IMAGES_PER_REQUEST = 4;
+
+// What the gallery shows before the user asks for anything else
+const DEFAULT_TILES: TileRequest[] = [
+  { style: ImageStyle.HABITAT, variant: 0 },
+  { style: ImageStyle.PORTRAIT, variant: 0 },
+];
+
+const toTile = ({ style, variant }: TileRequest): GalleryTile => ({ id: `${style}-${variant}`, style, variant, status: 'loading' });
+
+export const SimilarImageGallery: React.FC<SimilarImageGalleryProps> = ({ animalName }) => {
+  const { locale, t } = useI18n();
+  const [tiles, setTiles] = useState<GalleryTile[]>([]);
+  const [style, setStyle] = useState<ImageStyle>(ImageStyle.HABITAT);
+  const [count, setCount] = useState(2);
+  const [lightboxId, setLightboxId] = useState<string | null>(null);
+  // One controller per tile, so each can be regenerated or cancelled on its own
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const updateTile = (id: string, patch: Partial<GalleryTile>) =>
+    setTiles(current => current.map(tile => (tile.id === id ? { ...tile, ...patch } : tile)));
+
+  const abortAll = () => {
+    controllersRef.current.forEach(controller => controller.abort());
+    controllersRef.current.clear();
+  };
+
+  const loadTile = async (tile: GalleryTile, refresh = false) => {
+    controllersRef.current.get(tile.id)?.abort();
+    const controller = new AbortController();
+    controllersRef.current.set(tile.id, controller);
+    updateTile(tile.id, { status: 'loading' });
+
+    try {
+      const image = await generateSimilarImage(animalName, tile.style, { locale, variant: tile.variant, refresh, signal: controller.signal });
+      // Tile ids repeat across animals, so a late answer must not land in the new tile
+      if (controller.signal.aborted) return;
+      updateTile(tile.id, { status: 'ready', image });
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) return;
+      console.error("Failed to generate similar image", error);
+      updateTile(tile.id, { status: 'error' });
+    } finally {
+      if (controllersRef.current.get(tile.id) === controller) controllersRef.current.delete(tile.id);
+    }
+  };
+
+  const requestTiles = (requests: TileRequest[]) => {
+    abortAll();
+    setLightboxId(null);
+    const next = requests.map(toTile);
+    setTiles(next);
+    next.forEach(tile => loadTile(tile));
+  };
+
+  useEffect(() => {
+    requestTiles(DEFAULT_TILES);
+    // Leaving the results (or switching candidate) cancels the generation in flight
+    return abortAll;
+  }, [animalName, locale]);
+
+  const handleGenerate = () =>
+    requestTiles(Array.from({ length: count }, (_, variant) => ({ style, variant })));
+
+  // A failed regeneration closes the lightbox; the tile then offers a retry
+  const lightboxTile = tiles.find(tile => tile.id === lightboxId && tile.status !== 'error');
+  const altFor = (tile: GalleryTile) => `${t(STYLE_LABELS[tile.style])}: ${t('results.similarImageAlt', { name: animalName, index: tile.variant + 1 })}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <h2 className="text-2xl font-bold text-slate-800">{t('results.similarImages')}</h2>
+        <div className="flex items-end gap-2">
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 mb-1">{t('gallery.style')}</span>
+            <select
+              value={style}
+              onChange={(e) => setStyle(e.target.value as ImageStyle)}
+              className="px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm bg-white"
+            >
+              {Object.values(ImageStyle).map(option => (
+                <option key={option} value={option}>{t(STYLE_LABELS[option])}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 mb-1">{t('gallery.count')}</span>
+            <select
+              value={count}
+              onChange={(e) => setCount(Number(e.target.value))}
+              className="px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm bg-white"
+            >
+              {Array.from({ length: MAX_IMAGES_PER_REQUEST }, (_, idx) => idx + 1).map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handleGenerate}
+            className="px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 transition-colors"
+          >
+            {t('gallery.generate')}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        {tiles.map(tile => (
+          <div key={tile.id} className="relative aspect-square rounded-2xl overflow-hidden shadow-md">
+            {tile.status === 'error' ? (
+              <div className="w-full h-full flex flex-col items-center justify-center gap-3 p-6 text-center bg-slate-50 border border-dashed border-slate-300 rounded-2xl text-slate-500">
+                <p className="text-sm">{t('gallery.failed', { style: t(STYLE_LABELS[tile.style]) })}</p>
+                <button
+                  onClick={() => loadTile(tile, true)}
+                  className="px-3 py-1.5 rounded-full bg-white border border-slate-200 text-xs font-semibold text-slate-700 hover:border-emerald-400 transition-colors"
+                >
+                  {t('gallery.retry')}
+                </button>
+              </div>
+            ) : tile.image ? (
+              <button
+                onClick={() => setLightboxId(tile.id)}
+                aria-label={t('gallery.open', { name: altFor(tile) })}
+                className="group block w-full h-full"
+              >
+                <img
+                  src={tile.image.url}
+                  alt={altFor(tile)}
+                  className={`w-full h-full object-cover transform group-hover:scale-105 transition duration-500 ${tile.status === 'loading' ? 'opacity-40' : ''}`}
+                />
+                <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end p-4">
+                  <p className="text-white text-sm font-medium">{t(STYLE_LABELS[tile.style])} · {t('results.aiGenerated')}</p>
+                </div>
+              </button>
+            ) : (
+              <div className="w-full h-full bg-slate-200 animate-pulse"></div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {lightboxTile?.image && (
+        <ImageLightbox
+          image={lightboxTile.image}
+          alt={altFor(lightboxTile)}
+          fileName={imageFileName([animalName, lightboxTile.style, String(lightboxTile.variant + 1)], lightboxTile.image.url)}
+          isRegenerating={lightboxTile.status === 'loading'}
+          onRegenerate={() => loadTile(lightboxTile, true)}
+          onClose={() => setLightboxId(null)}
+        />
+      )}
+    </div>
+  );
+};
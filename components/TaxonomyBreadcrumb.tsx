@@ -0,0 +1,53 @@
+import React from 'react';
+import { Taxonomy } from '../types';
+import { TAXONOMIC_RANKS } from '../services/aiProvider';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface TaxonomyBreadcrumbProps {
+  taxonomy: Taxonomy;
+}
+
+const RANK_LABELS: Record<keyof Taxonomy, MessageKey> = {
+  kingdom: 'taxonomy.kingdom',
+  phylum: 'taxonomy.phylum',
+  class: 'taxonomy.class',
+  order: 'taxonomy.order',
+  family: 'taxonomy.family',
+  genus: 'taxonomy.genus',
+  species: 'taxonomy.species',
+};
+
+// By convention only genus and species names are italicised
+const ITALIC_RANKS: (keyof Taxonomy)[] = ['genus', 'species'];
+
+const wikipediaUrl = (locale: string, name: string) =>
+  `https://${locale}.wikipedia.org/wiki/${encodeURIComponent(name.trim().replace(/ /g, '_'))}`;
+
+export const TaxonomyBreadcrumb: React.FC<TaxonomyBreadcrumbProps> = ({ taxonomy }) => {
+  const { locale, t } = useI18n();
+
+  return (
+    <nav aria-label={t('taxonomy.label')}>
+      <ol className="flex flex-wrap items-end gap-x-1 gap-y-2">
+        {TAXONOMIC_RANKS.map((rank, idx) => (
+          <li key={rank} className="flex items-end gap-1">
+            {idx > 0 && <span className="text-slate-300 pb-0.5" aria-hidden="true">›</span>}
+            <a
+              href={wikipediaUrl(locale, taxonomy[rank])}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={t('taxonomy.lookUp', { name: taxonomy[rank] })}
+              className="group flex flex-col px-1.5 py-0.5 rounded-md hover:bg-emerald-50 transition-colors"
+            >
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{t(RANK_LABELS[rank])}</span>
+              <span className={`text-sm font-medium text-slate-700 group-hover:text-emerald-700 ${ITALIC_RANKS.includes(rank) ? 'italic font-serif' : ''}`}>
+                {taxonomy[rank]}
+              </span>
+            </a>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+};
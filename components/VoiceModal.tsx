@@ -1,32 +1,84 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
-import { AnimalDetails } from '../types';
+import React, { useEffect, useReducer, useRef, useState } from 'react';
+import { AnimalDetails, AssistantSettings, ChatMessage } from '../types';
+import { connectLiveSession } from '../services/geminiService';
+import { LiveVoiceSession } from '../services/aiProvider';
+import {
+  createPcm16Decoder,
+  encodePcmChunk,
+  INPUT_SAMPLE_RATE,
+  OUTPUT_SAMPLE_RATE,
+  PCM_CAPTURE_PROCESSOR,
+  PcmCaptureOptions,
+  toAudioBuffer,
+} from '../services/pcmAudio';
+import { getCaptureWorkletUrl } from '../services/pcmCaptureWorklet';
+import { PERSONAS } from '../services/assistantSettings';
+import {
+  INITIAL_VOICE_STATE,
+  MAX_RECONNECT_ATTEMPTS,
+  reconnectDelay,
+  STABLE_CONNECTION_MS,
+  voiceSessionReducer,
+} from '../services/voiceSessionState';
+import { useI18n } from './I18nProvider';
 
 interface VoiceModalProps {
   animalData: AnimalDetails;
-  onClose: () => void;
+  settings: AssistantSettings;
+  /** Receives the finished transcript so it can join the chat history. */
+  onClose: (transcript: ChatMessage[]) => void;
 }
 
-export const VoiceModal: React.FC<VoiceModalProps> = ({ animalData, onClose }) => {
-  const [status, setStatus] = useState<'connecting' | 'listening' | 'speaking' | 'error'>('connecting');
-  const [errorMessage, setErrorMessage] = useState('');
+type MicMode = 'open' | 'pushToTalk';
+
+// Rolling captions only show the tail of the conversation
+const VISIBLE_CAPTION_TURNS = 3;
+
+// 128 ms of 16 kHz audio per message to the live session
+const CAPTURE_OPTIONS: PcmCaptureOptions = { targetSampleRate: INPUT_SAMPLE_RATE, chunkSize: 2048 };
+
+const finishedTurns = (turns: ChatMessage[]) =>
+  turns.map(turn => ({ ...turn, text: turn.text.trim() })).filter(turn => turn.text);
+
+export const VoiceModal: React.FC<VoiceModalProps> = ({ animalData, settings, onClose }) => {
+  const { t } = useI18n();
+  const [{ status, reconnectAttempt, errorMessage }, dispatch] = useReducer(voiceSessionReducer, INITIAL_VOICE_STATE);
+  const [transcript, setTranscript] = useState<ChatMessage[]>([]);
+  const [micMode, setMicMode] = useState<MicMode>('open');
+  const [isMuted, setIsMuted] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const isTransmitting = !isMuted && (micMode === 'open' || isTalking);
   
   // Audio Contexts and Nodes
   const inputContextRef = useRef<AudioContext | null>(null);
   const outputContextRef = useRef<AudioContext | null>(null);
   const outputNodeRef = useRef<GainNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const workletNodeRef = useRef<AudioWorkletNode | null>(null);
   const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
   
   // Audio Scheduling
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const decodePcmRef = useRef(createPcm16Decoder());
   
-  // Session
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  // Session. Each connection gets a new generation so callbacks from a
+  // dropped socket can't act on its replacement.
+  const sessionRef = useRef<LiveVoiceSession | null>(null);
+  const generationRef = useRef(0);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const stableTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isMountedRef = useRef(true);
 
+  // Whether microphone chunks go out; read by the worklet callback
+  const isTransmittingRef = useRef(true);
+
+  // Transcript, kept in a ref as well so callbacks and close see the latest turns
+  const transcriptRef = useRef<ChatMessage[]>([]);
+  const openTurnRef = useRef<ChatMessage['role'] | null>(null);
+  const captionsEndRef = useRef<HTMLDivElement>(null);
+
   useEffect(() => {
     isMountedRef.current = true;
     startSession();
@@ -37,125 +89,186 @@ export const VoiceModal: React.FC<VoiceModalProps> = ({ animalData, onClose }) =
     };
   }, []);
 
+  useEffect(() => {
+    if (isTransmittingRef.current && !isTransmitting) {
+      // Let server-side voice detection know the user has stopped, instead of waiting on silence
+      sessionRef.current?.endAudioStream();
+    }
+    isTransmittingRef.current = isTransmitting;
+  }, [isTransmitting]);
+
+  // Hold the spacebar to talk
+  useEffect(() => {
+    if (micMode !== 'pushToTalk') return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) setIsTalking(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      setIsTalking(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      setIsTalking(false);
+    };
+  }, [micMode]);
+
+  useEffect(() => {
+    captionsEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [transcript]);
+
   const startSession = async () => {
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
       // Initialize Audio Contexts
-      // Input: 16kHz for Gemini input
+      // Input: the device's native rate; the capture worklet resamples to 16kHz
       // Output: 24kHz for Gemini output
-      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      outputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      outputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+      await inputContextRef.current.audioWorklet.addModule(getCaptureWorkletUrl());
       outputNodeRef.current = outputContextRef.current.createGain();
       outputNodeRef.current.connect(outputContextRef.current.destination);
 
       // Get Microphone Stream
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
+      setupAudioInput();
+    } catch (err) {
+      console.error("Failed to start voice session", err);
+      if (isMountedRef.current) dispatch({ type: 'FAILED', message: t('voice.micFailed') });
+      return;
+    }
 
-      // Connect to Gemini Live
-      sessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: `You are a friendly expert zoologist. The user is looking at a ${animalData.commonName} (${animalData.scientificName}).
-          
-          Context about the animal:
-          - Description: ${animalData.description}
-          - Habitat: ${animalData.habitat}
-          - Diet: ${animalData.diet}
-          - Fun Fact: ${animalData.funFact}
+    await connect();
+  };
 
-          Answer questions about this animal naturally and enthusiastically. Keep responses relatively short and conversational suitable for voice chat.`,
-        },
+  const connect = async () => {
+    const generation = ++generationRef.current;
+    const isCurrent = () => isMountedRef.current && generation === generationRef.current;
+
+    try {
+      const session = await connectLiveSession({
+        animalData,
+        settings,
+        history: finishedTurns(transcriptRef.current),
         callbacks: {
-          onopen: () => {
-            if (isMountedRef.current) {
-              setStatus('listening');
-              setupAudioInput();
-            }
+          onOpen: () => {
+            if (!isCurrent()) return;
+            // Only a connection that holds up earns a fresh set of reconnect attempts
+            stableTimerRef.current = setTimeout(() => {
+              if (isCurrent()) reconnectAttemptRef.current = 0;
+            }, STABLE_CONNECTION_MS);
+            dispatch({ type: 'CONNECTED' });
+          },
+          onAudio: (base64Audio) => {
+            if (isCurrent()) playAudioChunk(base64Audio);
+          },
+          onInterrupted: () => {
+            if (!isCurrent()) return;
+            stopAllAudio();
+            openTurnRef.current = null;
+            dispatch({ type: 'INTERRUPTED' });
           },
-          onmessage: async (message: LiveServerMessage) => {
-            if (!isMountedRef.current) return;
-
-            // Handle Audio Output
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio) {
-              setStatus('speaking');
-              await playAudioChunk(base64Audio);
-            }
-
-            // Handle Interruption
-            if (message.serverContent?.interrupted) {
-              stopAllAudio();
-              setStatus('listening');
-            }
-
-            // If turn complete, likely waiting for user now
-            if (message.serverContent?.turnComplete) {
-              setStatus('listening');
-            }
+          onTurnComplete: () => {
+            if (!isCurrent()) return;
+            openTurnRef.current = null;
+            // Audio usually outlives the turn; the player reports when it actually ends
+            if (sourcesRef.current.size === 0) dispatch({ type: 'PLAYBACK_ENDED' });
           },
-          onclose: () => {
-            console.log('Session closed');
+          onTranscription: (role, text) => {
+            if (isCurrent()) appendTranscription(role, text);
           },
-          onerror: (err) => {
+          onClose: () => {
+            if (isCurrent()) handleConnectionLost();
+          },
+          onError: (err) => {
             console.error('Session error', err);
-            if (isMountedRef.current) {
-              setStatus('error');
-              setErrorMessage('Connection lost.');
-            }
+            if (isCurrent()) handleConnectionLost();
           },
         },
       });
 
+      if (isCurrent()) {
+        sessionRef.current = session;
+      } else {
+        session.close();
+      }
     } catch (err) {
-      console.error("Failed to start voice session", err);
-      setStatus('error');
-      setErrorMessage('Could not access microphone or connect to AI.');
+      console.error("Failed to connect voice session", err);
+      if (isCurrent()) handleConnectionLost();
+    }
+  };
+
+  const handleConnectionLost = () => {
+    // Invalidate the dropped session's callbacks before anything else can fire
+    generationRef.current++;
+    sessionRef.current = null;
+    if (stableTimerRef.current) clearTimeout(stableTimerRef.current);
+    stopAllAudio();
+    openTurnRef.current = null;
+    // A byte carried over from the dropped stream would misalign every sample of the next one
+    decodePcmRef.current = createPcm16Decoder();
+
+    const attempt = ++reconnectAttemptRef.current;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      dispatch({ type: 'FAILED', message: t('voice.connectionLost') });
+      return;
     }
+    dispatch({ type: 'CONNECTION_LOST', attempt });
+    reconnectTimerRef.current = setTimeout(() => {
+      if (isMountedRef.current) connect();
+    }, reconnectDelay(attempt));
+  };
+
+  const appendTranscription = (role: ChatMessage['role'], text: string) => {
+    const turns = transcriptRef.current;
+    const last = turns[turns.length - 1];
+    transcriptRef.current = openTurnRef.current === role && last
+      ? [...turns.slice(0, -1), { ...last, text: last.text + text }]
+      : [...turns, { role, text, viaVoice: true }];
+    openTurnRef.current = role;
+    setTranscript(transcriptRef.current);
+  };
+
+  const handleClose = () => {
+    onClose(finishedTurns(transcriptRef.current));
   };
 
   const setupAudioInput = () => {
-    if (!inputContextRef.current || !streamRef.current || !sessionPromiseRef.current) return;
+    if (!inputContextRef.current || !streamRef.current) return;
 
     const source = inputContextRef.current.createMediaStreamSource(streamRef.current);
     sourceNodeRef.current = source;
-    
-    // Create ScriptProcessor for raw PCM access
-    const processor = inputContextRef.current.createScriptProcessor(4096, 1, 1);
-    scriptProcessorRef.current = processor;
 
-    processor.onaudioprocess = (e) => {
-      if (!isMountedRef.current) return;
-      
-      const inputData = e.inputBuffer.getChannelData(0);
-      const pcmBlob = createBlob(inputData);
+    // Capture, resampling and PCM16 conversion run on the audio thread
+    const worklet = new AudioWorkletNode(inputContextRef.current, PCM_CAPTURE_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions: CAPTURE_OPTIONS,
+    });
+    workletNodeRef.current = worklet;
 
-      sessionPromiseRef.current!.then((session) => {
-        session.sendRealtimeInput({ media: pcmBlob });
-      });
+    // The pipeline outlives reconnects; chunks are dropped while there is no session
+    worklet.port.onmessage = (e: MessageEvent<Int16Array>) => {
+      if (!isMountedRef.current || !isTransmittingRef.current || !sessionRef.current) return;
+      sessionRef.current.sendAudio(encodePcmChunk(e.data, CAPTURE_OPTIONS.targetSampleRate));
     };
 
-    source.connect(processor);
-    processor.connect(inputContextRef.current.destination);
+    source.connect(worklet);
   };
 
-  const playAudioChunk = async (base64Audio: string) => {
+  const playAudioChunk = (base64Audio: string) => {
     if (!outputContextRef.current || !outputNodeRef.current) return;
 
     try {
-      // Decode base64 to byte array
-      const audioData = decode(base64Audio);
-      
-      // Decode raw PCM to AudioBuffer
-      // Note: Gemini sends raw PCM, so we need a custom decoder, 
-      // but for simplicity and robustness with standard web APIs, 
-      // the helper function below handles the Float32 conversion.
-      const audioBuffer = await decodeAudioData(audioData, outputContextRef.current, 24000, 1);
+      const audioBuffer = toAudioBuffer(outputContextRef.current, decodePcmRef.current(base64Audio), OUTPUT_SAMPLE_RATE);
 
       // Schedule playback
       // Ensure we don't schedule in the past
@@ -169,17 +282,16 @@ export const VoiceModal: React.FC<VoiceModalProps> = ({ animalData, onClose }) =
       source.connect(outputNodeRef.current);
       
       source.addEventListener('ended', () => {
-        sourcesRef.current.delete(source);
+        // Sources stopped by stopAllAudio were already removed
+        if (!sourcesRef.current.delete(source)) return;
         if (sourcesRef.current.size === 0 && isMountedRef.current) {
-            // Slight delay to ensure status update feels natural
-            setTimeout(() => {
-                if(status === 'speaking') setStatus('listening');
-            }, 200);
+          dispatch({ type: 'PLAYBACK_ENDED' });
         }
       });
 
       source.start(nextStartTimeRef.current);
       sourcesRef.current.add(source);
+      dispatch({ type: 'PLAYBACK_STARTED' });
 
       // Advance time cursor
       nextStartTimeRef.current += audioBuffer.duration;
@@ -190,22 +302,23 @@ export const VoiceModal: React.FC<VoiceModalProps> = ({ animalData, onClose }) =
   };
 
   const stopAllAudio = () => {
-    sourcesRef.current.forEach(source => {
+    const sources = Array.from<AudioBufferSourceNode>(sourcesRef.current);
+    sourcesRef.current.clear();
+    sources.forEach(source => {
       try { source.stop(); } catch (e) {}
     });
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
     
-    if (outputContextRef.current) {
-        nextStartTimeRef.current = outputContextRef.current.currentTime;
-    }
+    nextStartTimeRef.current = outputContextRef.current?.currentTime ?? 0;
   };
 
   const cleanup = () => {
-    // Close session
-    if (sessionPromiseRef.current) {
-        sessionPromiseRef.current.then(session => session.close()).catch(() => {});
-    }
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    if (stableTimerRef.current) clearTimeout(stableTimerRef.current);
+
+    // Close session, ignoring the close callback it triggers
+    generationRef.current++;
+    sessionRef.current?.close();
+    sessionRef.current = null;
 
     // Stop tracks
     if (streamRef.current) {
@@ -214,73 +327,24 @@ export const VoiceModal: React.FC<VoiceModalProps> = ({ animalData, onClose }) =
 
     // Disconnect nodes
     if (sourceNodeRef.current) sourceNodeRef.current.disconnect();
-    if (scriptProcessorRef.current) scriptProcessorRef.current.disconnect();
+    if (workletNodeRef.current) {
+      workletNodeRef.current.port.onmessage = null;
+      workletNodeRef.current.disconnect();
+    }
 
     // Close contexts
     if (inputContextRef.current) inputContextRef.current.close();
     if (outputContextRef.current) outputContextRef.current.close();
   };
 
-  // --- Helpers from GenAI SDK Documentation ---
-
-  function createBlob(data: Float32Array): Blob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-      // Scale Float32 (-1.0 to 1.0) to Int16
-      int16[i] = data[i] * 32768;
-    }
-    return {
-      data: encode(new Uint8Array(int16.buffer)),
-      mimeType: 'audio/pcm;rate=16000',
-    };
-  }
-
-  function encode(bytes: Uint8Array) {
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
-
-  function decode(base64: string) {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-  }
-
-  async function decodeAudioData(
-    data: Uint8Array,
-    ctx: AudioContext,
-    sampleRate: number,
-    numChannels: number,
-  ): Promise<AudioBuffer> {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-    for (let channel = 0; channel < numChannels; channel++) {
-      const channelData = buffer.getChannelData(channel);
-      for (let i = 0; i < frameCount; i++) {
-        channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-      }
-    }
-    return buffer;
-  }
-
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/95 backdrop-blur-sm animate-fade-in">
       <div className="w-full max-w-lg p-8 flex flex-col items-center justify-center relative">
         
         {/* Close Button */}
         <button 
-          onClick={onClose}
+          onClick={handleClose}
+          aria-label={t('voice.close')}
           className="absolute top-0 right-4 text-white/50 hover:text-white transition-colors"
         >
           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8">
@@ -300,17 +364,19 @@ export const VoiceModal: React.FC<VoiceModalProps> = ({ animalData, onClose }) =
           {/* Main Orb */}
           <div className={`relative w-32 h-32 rounded-full flex items-center justify-center transition-all duration-300 shadow-2xl
             ${status === 'speaking' ? 'bg-emerald-500 scale-110 animate-pulse' : 
+              status === 'listening' && !isTransmitting ? 'bg-slate-600 scale-100' :
               status === 'listening' ? 'bg-blue-500 scale-100' : 
+              status === 'reconnecting' ? 'bg-amber-500' :
               status === 'error' ? 'bg-red-500' : 'bg-slate-700'}`}
           >
-            {status === 'connecting' && (
+            {(status === 'connecting' || status === 'reconnecting') && (
                <svg className="animate-spin h-8 w-8 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                </svg>
             )}
             
-            {status !== 'connecting' && (
+            {status !== 'connecting' && status !== 'reconnecting' && (
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-12 h-12 text-white">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
               </svg>
@@ -320,25 +386,98 @@ export const VoiceModal: React.FC<VoiceModalProps> = ({ animalData, onClose }) =
 
         {/* Text Status */}
         <h3 className="text-2xl font-bold text-white mb-2 tracking-wide">
-          {status === 'connecting' && 'Connecting...'}
-          {status === 'listening' && 'Listening...'}
-          {status === 'speaking' && 'Speaking...'}
-          {status === 'error' && 'Connection Failed'}
+          {status === 'connecting' && t('voice.status.connecting')}
+          {status === 'listening' && (isMuted ? t('voice.status.muted') : isTransmitting ? t('voice.status.listening') : t('voice.status.holdToTalk'))}
+          {status === 'speaking' && t('voice.status.speaking')}
+          {status === 'reconnecting' && t('voice.status.reconnecting')}
+          {status === 'error' && t('voice.status.failed')}
         </h3>
         
-        <p className="text-slate-400 text-center max-w-xs mb-8">
+        <p className="text-slate-400 text-center max-w-xs mb-6">
           {status === 'error' 
             ? errorMessage 
-            : `Ask about the ${animalData.commonName}. Tap 'End' to close.`
+            : status === 'reconnecting'
+              ? t('voice.reconnecting', { attempt: reconnectAttempt, max: MAX_RECONNECT_ATTEMPTS })
+              : micMode === 'pushToTalk'
+                ? t('voice.hintPushToTalk', { name: animalData.commonName })
+                : t('voice.hintOpenMic', { name: animalData.commonName })
           }
         </p>
 
+        {/* Captions */}
+        <div
+          className="w-full max-h-40 overflow-y-auto mb-8 space-y-2 text-left"
+          aria-live="polite"
+          aria-label={t('voice.captions')}
+        >
+          {transcript.slice(-VISIBLE_CAPTION_TURNS).map((turn, idx) => (
+            <p key={Math.max(0, transcript.length - VISIBLE_CAPTION_TURNS) + idx} className={`text-lg leading-snug ${turn.role === 'user' ? 'text-blue-200' : 'text-white'}`}>
+              <span className="text-xs font-semibold uppercase tracking-wider text-slate-500 mr-2">
+                {turn.role === 'user' ? t('voice.you') : t(PERSONAS[settings.persona].label)}
+              </span>
+              {turn.text}
+            </p>
+          ))}
+          <div ref={captionsEndRef} />
+        </div>
+
+        {/* Microphone Controls */}
+        <div className="flex flex-col items-center gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <div className="flex p-1 bg-white/10 rounded-full text-sm" role="group" aria-label={t('voice.micMode')}>
+              {(['open', 'pushToTalk'] as MicMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setMicMode(mode)}
+                  aria-pressed={micMode === mode}
+                  className={`px-4 py-1.5 rounded-full font-medium transition-colors ${micMode === mode ? 'bg-white text-slate-900' : 'text-slate-300 hover:text-white'}`}
+                >
+                  {mode === 'open' ? t('voice.openMic') : t('voice.pushToTalk')}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setIsMuted(prev => !prev)}
+              aria-pressed={isMuted}
+              aria-label={isMuted ? t('voice.unmute') : t('voice.mute')}
+              className={`p-2.5 rounded-full transition-colors ${isMuted ? 'bg-red-500 text-white' : 'bg-white/10 text-slate-300 hover:text-white'}`}
+            >
+              {isMuted ? (
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M3 3l18 18M9 9v3a3 3 0 004.5 2.6M15 12V4.5a3 3 0 00-5.9-.8M18 11.25v1.5a6 6 0 01-.6 2.6M6 11.25v1.5a6 6 0 009.4 4.9M12 18.75v3.75m-3.75 0h7.5" />
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+                </svg>
+              )}
+            </button>
+          </div>
+
+          {micMode === 'pushToTalk' && (
+            <button
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setIsTalking(true);
+              }}
+              onPointerUp={() => setIsTalking(false)}
+              onPointerCancel={() => setIsTalking(false)}
+              onContextMenu={(e) => e.preventDefault()}
+              disabled={isMuted || status === 'error'}
+              aria-pressed={isTalking}
+              className={`w-48 py-4 rounded-full font-semibold select-none touch-none transition-all disabled:opacity-40 ${isTalking ? 'bg-blue-500 text-white scale-105 shadow-lg shadow-blue-500/30' : 'bg-white/10 text-white hover:bg-white/20'}`}
+            >
+              {isTalking ? t('voice.releaseToSend') : t('voice.holdToTalk')}
+            </button>
+          )}
+        </div>
+
         {/* Controls */}
         <button 
-          onClick={onClose}
+          onClick={handleClose}
           className="px-8 py-3 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/50 rounded-full font-medium transition-all"
         >
-          End Voice Session
+          {t('voice.end')}
         </button>
 
       </div>
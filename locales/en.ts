@@ -0,0 +1,307 @@
+// Source catalog. Every other locale must translate each of these keys;
+// placeholders in braces are filled in by `t`.
+export const en = {
+  'nav.journal': 'Journal',
+  'nav.newScan': 'New Scan',
+  'nav.settings': 'Assistant settings',
+  'nav.language': 'Language',
+
+  'upload.title': 'Discover the Animal Kingdom',
+  'upload.subtitle': 'Instantly identify animals, learn fascinating facts, and chat with our AI zoologist.',
+
+  'analyzing.title': 'Analyzing image...',
+  'analyzing.optimized': 'Optimized {from} → {to}',
+  'analyzing.cancel': 'Cancel',
+
+  'unidentified.noAnimal.title': "We couldn't spot an animal",
+  'unidentified.noAnimal.hint': 'Make sure the animal is in the frame and try another photo.',
+  'unidentified.poorQuality.title': 'This photo is hard to read',
+  'unidentified.poorQuality.hint': 'It looks too blurry, dark or small. Try again with steadier hands or better light.',
+  'unidentified.multiple.title': "There's more than one animal here",
+  'unidentified.multiple.hint': 'Get closer or crop the photo so a single animal fills most of the frame.',
+  'unidentified.photoAlt': 'Your upload',
+
+  'error.title': 'Oops! Something went wrong',
+  'error.fallback': "We couldn't process your request.",
+  'error.identify': 'Failed to identify the animal. Please ensure the image is clear and try again.',
+  'error.invalidResponse': "The AI's answer was incomplete or garbled, even after we asked it to try again. This is usually temporary, so please try once more.",
+  'error.timeout': 'The AI took too long to answer. Check your connection and try again.',
+  'error.busy': 'The AI service is busy right now. Wait a moment and try again.',
+  'error.retry': 'Try Again',
+
+  'export.notReady': "This sighting can't be exported yet.",
+  'export.issue.missingOccurrenceId': 'Missing occurrence ID',
+  'export.issue.missingScientificName': 'Missing scientific name',
+  'export.issue.invalidScientificName': '"{name}" is not a Latin binomial',
+  'export.issue.invalidEventDate': '"{date}" is not an ISO 8601 date',
+  'export.issue.incompleteCoordinates': 'Coordinates need both latitude and longitude',
+  'export.issue.latitudeRange': 'Latitude must be between -90 and 90',
+  'export.issue.longitudeRange': 'Longitude must be between -180 and 180',
+
+  'footer.credit': '© {year} Eye Animal. Powered by Google Gemini.',
+
+  'uploader.invalidFile': 'Please upload a valid image file.',
+  'uploader.readFailed': 'Could not read this image.',
+  'uploader.title': 'Identify an Animal',
+  'uploader.clickToUpload': 'Click to upload',
+  'uploader.orDragAndDrop': 'or drag and drop',
+  'uploader.selectImage': 'Select Image',
+  'uploader.useCamera': 'Use Camera',
+  'uploader.formats': 'Supports JPG, PNG, WEBP, HEIC',
+
+  'results.photoAlt': 'Uploaded Animal',
+  'results.yourPhoto': 'Your Photo',
+  'results.yourPhotoCount': 'Your Photo · {count} animals',
+  'results.findingAnimals': 'Finding animals...',
+  'results.findAllAnimals': 'Find all animals',
+  'results.topMatch': 'Top match',
+  'results.alternativeMatch': 'Alternative match',
+  'results.confidence': '{value} confidence',
+  'results.habitat': 'Habitat',
+  'results.diet': 'Diet',
+  'results.visualCues': 'Visual cues',
+  'results.funFact': 'Fun Fact:',
+  'results.chat': 'Chat',
+  'results.voiceMode': 'Voice Mode',
+  'results.export': 'Export',
+  'results.exportHint': 'Download a Darwin Core record with the photo',
+  'results.otherPossibilities': 'Other possibilities',
+  'results.similarImages': 'Similar Images',
+  'results.similarImageAlt': '{name} variation {index}',
+  'results.aiGenerated': 'AI Generated Visualization',
+  'results.reanalyze': 'Analyze again',
+  'results.reanalyzeHint': 'Ignore the saved answer for this photo and ask the AI again',
+  'results.profile': 'Profile',
+
+  'gallery.style': 'Style',
+  'gallery.count': 'Images',
+  'gallery.generate': 'Generate',
+  'gallery.failed': "{style}: this image couldn't be generated.",
+  'gallery.retry': 'Try again',
+  'gallery.open': 'Enlarge {name}',
+
+  'edit.title': 'Edit your photo',
+  'edit.subtitle': 'The image model reworks the photo you took.',
+  'edit.preset.naturalHabitat': 'Place it in its habitat',
+  'edit.preset.removeBackground': 'Remove background',
+  'edit.preset.juvenileForm': 'Show the juvenile form',
+  'edit.preset.sizeComparison': 'Compare its size with a human',
+  'edit.preset.custom': 'Your own instruction',
+  'edit.customPlaceholder': 'e.g. make it a snowy winter scene',
+  'edit.apply': 'Edit photo',
+  'edit.applying': 'Editing...',
+  'edit.failed': "Couldn't edit the photo. Try again or pick another edit.",
+  'edit.before': 'Before',
+  'edit.after': 'After',
+  'edit.sliderLabel': 'Drag to compare the original and the edited photo',
+  'edit.newVersion': 'New version',
+
+  'imageStyle.habitat': 'Habitat scene',
+  'imageStyle.portrait': 'Portrait',
+  'imageStyle.scientificIllustration': 'Scientific illustration',
+  'imageStyle.juvenile': 'Juvenile',
+  'imageStyle.rangeDiorama': 'Range diorama',
+
+  'lightbox.close': 'Close',
+  'lightbox.download': 'Download',
+  'lightbox.regenerate': 'Regenerate this one',
+
+  'taxonomy.label': 'Taxonomy',
+  'taxonomy.lookUp': 'Look up {name} on Wikipedia',
+  'taxonomy.kingdom': 'Kingdom',
+  'taxonomy.phylum': 'Phylum',
+  'taxonomy.class': 'Class',
+  'taxonomy.order': 'Order',
+  'taxonomy.family': 'Family',
+  'taxonomy.genus': 'Genus',
+  'taxonomy.species': 'Species',
+
+  'stats.size': 'Size',
+  'stats.weight': 'Weight',
+  'stats.lifespan': 'Lifespan',
+  'stats.activity': 'Active',
+  'stats.nativeRange': 'Native range',
+
+  'activity.diurnal': 'By day',
+  'activity.nocturnal': 'At night',
+  'activity.crepuscular': 'At dawn and dusk',
+  'activity.cathemeral': 'Day and night',
+
+  'conservation.ex': 'Extinct',
+  'conservation.ex.explanation': 'No individuals are known to survive anywhere.',
+  'conservation.ew': 'Extinct in the Wild',
+  'conservation.ew.explanation': 'Survives only in captivity or in populations far outside its historic range.',
+  'conservation.cr': 'Critically Endangered',
+  'conservation.cr.explanation': 'Faces an extremely high risk of extinction in the wild.',
+  'conservation.en': 'Endangered',
+  'conservation.en.explanation': 'Faces a very high risk of extinction in the wild.',
+  'conservation.vu': 'Vulnerable',
+  'conservation.vu.explanation': 'Faces a high risk of extinction in the wild.',
+  'conservation.nt': 'Near Threatened',
+  'conservation.nt.explanation': 'Close to qualifying for a threatened category, or likely to qualify soon.',
+  'conservation.lc': 'Least Concern',
+  'conservation.lc.explanation': 'Widespread and abundant, with no current risk of extinction.',
+  'conservation.dd': 'Data Deficient',
+  'conservation.dd.explanation': 'There is not enough information to assess its risk of extinction.',
+  'conservation.ne': 'Not Evaluated',
+  'conservation.ne.explanation': 'Has not yet been assessed against the IUCN Red List criteria.',
+  'conservation.domesticated': 'Domesticated',
+  'conservation.domesticated.explanation': 'A domestic animal. The IUCN Red List does not assess domesticated forms.',
+  'conservation.source': 'IUCN Red List category',
+
+  'compare.button': 'Compare',
+  'compare.buttonHint': 'See how this animal differs from another one',
+  'compare.title': 'Compare the {name} with...',
+  'compare.back': 'Back to results',
+  'compare.pickTitle': 'Pick a second animal',
+  'compare.fromSession': 'From this photo',
+  'compare.orUpload': 'Or identify another photo',
+  'compare.noAnimal': "We couldn't identify an animal in that photo. Try another one.",
+  'compare.sameAnimal': "That's the same species. Pick a different animal.",
+  'compare.change': 'Change animal',
+  'compare.askBoth': 'Ask about both',
+  'compare.loading': 'Comparing...',
+  'compare.failed': "Couldn't compare these animals right now.",
+  'compare.features': 'How to tell them apart',
+  'compare.size': 'Size',
+  'compare.range': 'Range',
+  'compare.diet': 'Diet',
+  'compare.overlap.none': "Ranges don't overlap",
+  'compare.overlap.partial': 'Ranges partly overlap',
+  'compare.overlap.extensive': 'Ranges largely overlap',
+
+  'quiz.button': 'Quiz',
+  'quiz.buttonHint': 'Test what you learned about this animal',
+  'quiz.lastScore': '{score}/{total}',
+  'quiz.title': 'Quiz: {name}',
+  'quiz.back': 'Back to results',
+  'quiz.loading': 'Writing your quiz...',
+  'quiz.failed': "Couldn't create a quiz right now.",
+  'quiz.progress': 'Question {current} of {total}',
+  'quiz.score': 'Score: {score}',
+  'quiz.type.multipleChoice': 'Multiple choice',
+  'quiz.type.trueFalse': 'True or false',
+  'quiz.correct': 'Correct!',
+  'quiz.incorrect': 'Not quite. The answer is: {answer}',
+  'quiz.next': 'Next question',
+  'quiz.finish': 'See results',
+  'quiz.summaryTitle': '{score} out of {total}',
+  'quiz.summary.great': 'Excellent! You know this animal well.',
+  'quiz.summary.good': 'Nice work! A few details are worth another look.',
+  'quiz.summary.low': 'Keep exploring: review the results and try again.',
+  'quiz.previousBest': 'Previous best: {score}/{total}',
+  'quiz.yourAnswer': 'Your answer: {answer}',
+  'quiz.correctAnswer': 'Correct answer: {answer}',
+  'quiz.retake': 'Retake quiz',
+  'quiz.newQuestions': 'New questions',
+
+  'chat.title': 'Ask about {name}',
+  'chat.close': 'Close chat',
+  'chat.greeting': 'Hello! I see you found a {name}. What would you like to know about it?',
+  'chat.compareTitle': '{first} vs {second}',
+  'chat.compareGreeting': "Hi! Let's compare the {first} and the {second}. What would you like to know?",
+  'chat.voiceLabel': 'Voice',
+  'chat.attachmentAlt': 'Attachment {index}',
+  'chat.removeAttachment': 'Remove attachment {index}',
+  'chat.attachPhotos': 'Attach photos',
+  'chat.attachHint': 'Attach a close-up or another angle',
+  'chat.attachFailed': 'Could not attach that photo.',
+  'chat.placeholder': 'Ask something...',
+  'chat.stop': 'Stop generating',
+  'chat.send': 'Send',
+  'chat.connectionDropped': '_The connection dropped before I could finish._',
+  'chat.error': 'Sorry, I encountered an error connecting to the AI.',
+  'chat.stopped': '_Stopped._',
+  'chat.emptyReply': "I couldn't generate a response. Please try again.",
+
+  'camera.denied': 'Camera access was denied. Allow camera access in your browser settings, or upload a photo instead.',
+  'camera.notFound': 'No camera was found on this device. You can still upload a photo.',
+  'camera.inUse': 'The camera is being used by another app. Close it and try again.',
+  'camera.failed': 'Could not start the camera. You can still upload a photo.',
+  'camera.unsupported': 'This browser does not support camera capture. You can still upload a photo.',
+  'camera.uploadInstead': 'Upload a Photo Instead',
+  'camera.starting': 'Starting camera...',
+  'camera.cancel': 'Cancel',
+  'camera.takePhoto': 'Take photo',
+  'camera.switch': 'Switch camera',
+
+  'settings.title': 'Assistant settings',
+  'settings.subtitle': 'Applies to chat and voice mode. Saved on this device.',
+  'settings.close': 'Close settings',
+  'settings.persona': 'Persona',
+  'settings.language': 'Language',
+  'settings.languageAuto': 'Same as the app ({language})',
+  'settings.voice': 'Voice',
+  'settings.voice.firm': 'Firm',
+  'settings.voice.upbeat': 'Upbeat',
+  'settings.voice.informative': 'Informative',
+  'settings.voice.excitable': 'Excitable',
+  'settings.voice.breezy': 'Breezy',
+  'settings.voice.youthful': 'Youthful',
+  'settings.voice.firmDeeper': 'Firm, deeper',
+  'settings.voice.bright': 'Bright',
+  'settings.done': 'Done',
+
+  'persona.zoologist.label': 'Expert zoologist',
+  'persona.zoologist.description': 'Friendly, accurate and enthusiastic.',
+  'persona.kidGuide.label': 'Kid-friendly guide',
+  'persona.kidGuide.description': 'Simple words and fun comparisons for young explorers.',
+  'persona.fieldBiologist.label': 'Field biologist',
+  'persona.fieldBiologist.description': 'Technical detail on identification, behaviour and ecology.',
+  'persona.parkRanger.label': 'Park ranger',
+  'persona.parkRanger.description': 'Safety, respectful wildlife watching and conservation.',
+
+  'voice.close': 'Close voice mode',
+  'voice.status.connecting': 'Connecting...',
+  'voice.status.muted': 'Muted',
+  'voice.status.listening': 'Listening...',
+  'voice.status.holdToTalk': 'Hold to talk',
+  'voice.status.speaking': 'Speaking...',
+  'voice.status.reconnecting': 'Reconnecting...',
+  'voice.status.failed': 'Connection Failed',
+  'voice.reconnecting': 'Connection dropped. Attempt {attempt} of {max}; the conversation will pick up where it left off.',
+  'voice.hintPushToTalk': 'Ask about the {name}. Hold the button or the spacebar while you speak.',
+  'voice.hintOpenMic': "Ask about the {name}. Tap 'End' to close.",
+  'voice.captions': 'Live captions',
+  'voice.you': 'You',
+  'voice.micMode': 'Microphone mode',
+  'voice.openMic': 'Open mic',
+  'voice.pushToTalk': 'Push to talk',
+  'voice.unmute': 'Unmute microphone',
+  'voice.mute': 'Mute microphone',
+  'voice.releaseToSend': 'Release to send',
+  'voice.holdToTalk': 'Hold to talk',
+  'voice.end': 'End Voice Session',
+  'voice.micFailed': 'Could not access the microphone.',
+  'voice.connectionLost': 'Connection lost. Please close voice mode and try again.',
+
+  'journal.title': 'Sighting Journal',
+  'journal.count.one': '1 sighting saved on this device',
+  'journal.count.other': '{count} sightings saved on this device',
+  'journal.loadFailed': 'Your journal could not be loaded in this browser.',
+  'journal.confirmDelete': 'Delete your {name} sighting? This cannot be undone.',
+  'journal.deleteFailed': 'Could not delete this sighting. Please try again.',
+  'journal.delete': 'Delete {name} sighting',
+  'journal.exportSkipped.one': '{exported} exported. 1 sighting was left out:',
+  'journal.exportSkipped.other': '{exported} exported. {count} sightings were left out:',
+  'journal.view': 'Journal view',
+  'journal.view.list': 'List',
+  'journal.view.map': 'Map',
+  'journal.search': 'Search by name or habitat...',
+  'journal.allStatuses': 'All conservation statuses',
+  'journal.export': 'Export',
+  'journal.empty': 'No sightings yet. Every animal you identify is saved here automatically.',
+  'journal.identify': 'Identify an Animal',
+  'journal.noMatches': 'No sightings match your search.',
+
+  'map.label': 'Map of {count} sightings',
+  'map.open': 'Open',
+  'map.noLocations': 'None of these sightings have a location yet. Photos with GPS data, or camera captures with location access, appear here.',
+  'map.unlocated.one': '1 sighting has no location and is not shown.',
+  'map.unlocated.other': '{count} sightings have no location and are not shown.',
+
+  'photo.fallbackLabel': 'Animal {index}',
+  'photo.showDetails': 'Show details for {name}',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,305 @@
+import { MessageKey } from './en';
+
+export const es: Record<MessageKey, string> = {
+  'nav.journal': 'Diario',
+  'nav.newScan': 'Nuevo análisis',
+  'nav.settings': 'Ajustes del asistente',
+  'nav.language': 'Idioma',
+
+  'upload.title': 'Descubre el reino animal',
+  'upload.subtitle': 'Identifica animales al instante, aprende datos fascinantes y conversa con nuestro zoólogo de IA.',
+
+  'analyzing.title': 'Analizando la imagen...',
+  'analyzing.optimized': 'Optimizada {from} → {to}',
+  'analyzing.cancel': 'Cancelar',
+
+  'unidentified.noAnimal.title': 'No encontramos ningún animal',
+  'unidentified.noAnimal.hint': 'Asegúrate de que el animal aparezca en el encuadre y prueba con otra foto.',
+  'unidentified.poorQuality.title': 'Esta foto es difícil de interpretar',
+  'unidentified.poorQuality.hint': 'Parece demasiado borrosa, oscura o pequeña. Inténtalo de nuevo con el pulso más firme o con mejor luz.',
+  'unidentified.multiple.title': 'Aquí hay más de un animal',
+  'unidentified.multiple.hint': 'Acércate o recorta la foto para que un solo animal ocupe casi todo el encuadre.',
+  'unidentified.photoAlt': 'Tu foto',
+
+  'error.title': '¡Vaya! Algo salió mal',
+  'error.fallback': 'No pudimos procesar tu solicitud.',
+  'error.identify': 'No se pudo identificar el animal. Comprueba que la imagen sea nítida e inténtalo de nuevo.',
+  'error.invalidResponse': 'La respuesta de la IA llegó incompleta o con errores, incluso después de pedirle que lo intentara de nuevo. Suele ser algo pasajero, así que vuelve a intentarlo.',
+  'error.timeout': 'La IA tardó demasiado en responder. Revisa tu conexión e inténtalo de nuevo.',
+  'error.busy': 'El servicio de IA está saturado en este momento. Espera un poco e inténtalo de nuevo.',
+  'error.retry': 'Intentar de nuevo',
+
+  'export.notReady': 'Este avistamiento todavía no se puede exportar.',
+  'export.issue.missingOccurrenceId': 'Falta el identificador del registro',
+  'export.issue.missingScientificName': 'Falta el nombre científico',
+  'export.issue.invalidScientificName': '"{name}" no es un binomio latino',
+  'export.issue.invalidEventDate': '"{date}" no es una fecha ISO 8601',
+  'export.issue.incompleteCoordinates': 'Las coordenadas necesitan latitud y longitud',
+  'export.issue.latitudeRange': 'La latitud debe estar entre -90 y 90',
+  'export.issue.longitudeRange': 'La longitud debe estar entre -180 y 180',
+
+  'footer.credit': '© {year} Eye Animal. Con la tecnología de Google Gemini.',
+
+  'uploader.invalidFile': 'Sube un archivo de imagen válido.',
+  'uploader.readFailed': 'No se pudo leer esta imagen.',
+  'uploader.title': 'Identifica un animal',
+  'uploader.clickToUpload': 'Haz clic para subir',
+  'uploader.orDragAndDrop': 'o arrastra y suelta',
+  'uploader.selectImage': 'Elegir imagen',
+  'uploader.useCamera': 'Usar cámara',
+  'uploader.formats': 'Admite JPG, PNG, WEBP y HEIC',
+
+  'results.photoAlt': 'Animal subido',
+  'results.yourPhoto': 'Tu foto',
+  'results.yourPhotoCount': 'Tu foto · {count} animales',
+  'results.findingAnimals': 'Buscando animales...',
+  'results.findAllAnimals': 'Buscar todos los animales',
+  'results.topMatch': 'Mejor coincidencia',
+  'results.alternativeMatch': 'Coincidencia alternativa',
+  'results.confidence': '{value} de confianza',
+  'results.habitat': 'Hábitat',
+  'results.diet': 'Dieta',
+  'results.visualCues': 'Rasgos visuales',
+  'results.funFact': 'Dato curioso:',
+  'results.chat': 'Chat',
+  'results.voiceMode': 'Modo de voz',
+  'results.export': 'Exportar',
+  'results.exportHint': 'Descargar un registro Darwin Core con la foto',
+  'results.otherPossibilities': 'Otras posibilidades',
+  'results.similarImages': 'Imágenes similares',
+  'results.similarImageAlt': '{name}, variante {index}',
+  'results.aiGenerated': 'Visualización generada por IA',
+  'results.reanalyze': 'Analizar de nuevo',
+  'results.reanalyzeHint': 'Ignorar la respuesta guardada para esta foto y volver a preguntar a la IA',
+  'results.profile': 'Ficha',
+
+  'gallery.style': 'Estilo',
+  'gallery.count': 'Imágenes',
+  'gallery.generate': 'Generar',
+  'gallery.failed': '{style}: no se pudo generar esta imagen.',
+  'gallery.retry': 'Reintentar',
+  'gallery.open': 'Ampliar {name}',
+
+  'edit.title': 'Edita tu foto',
+  'edit.subtitle': 'El modelo de imágenes retoca la foto que tomaste.',
+  'edit.preset.naturalHabitat': 'Ponerlo en su hábitat',
+  'edit.preset.removeBackground': 'Quitar el fondo',
+  'edit.preset.juvenileForm': 'Mostrar la cría',
+  'edit.preset.sizeComparison': 'Comparar su tamaño con una persona',
+  'edit.preset.custom': 'Tu propia instrucción',
+  'edit.customPlaceholder': 'p. ej., conviértelo en una escena invernal con nieve',
+  'edit.apply': 'Editar foto',
+  'edit.applying': 'Editando...',
+  'edit.failed': 'No se pudo editar la foto. Inténtalo de nuevo o elige otra edición.',
+  'edit.before': 'Antes',
+  'edit.after': 'Después',
+  'edit.sliderLabel': 'Arrastra para comparar la foto original con la editada',
+  'edit.newVersion': 'Nueva versión',
+
+  'imageStyle.habitat': 'Escena en su hábitat',
+  'imageStyle.portrait': 'Retrato',
+  'imageStyle.scientificIllustration': 'Ilustración científica',
+  'imageStyle.juvenile': 'Cría',
+  'imageStyle.rangeDiorama': 'Diorama de su distribución',
+
+  'lightbox.close': 'Cerrar',
+  'lightbox.download': 'Descargar',
+  'lightbox.regenerate': 'Regenerar esta',
+
+  'taxonomy.label': 'Taxonomía',
+  'taxonomy.lookUp': 'Buscar {name} en Wikipedia',
+  'taxonomy.kingdom': 'Reino',
+  'taxonomy.phylum': 'Filo',
+  'taxonomy.class': 'Clase',
+  'taxonomy.order': 'Orden',
+  'taxonomy.family': 'Familia',
+  'taxonomy.genus': 'Género',
+  'taxonomy.species': 'Especie',
+
+  'stats.size': 'Tamaño',
+  'stats.weight': 'Peso',
+  'stats.lifespan': 'Esperanza de vida',
+  'stats.activity': 'Actividad',
+  'stats.nativeRange': 'Área de distribución nativa',
+
+  'activity.diurnal': 'De día',
+  'activity.nocturnal': 'De noche',
+  'activity.crepuscular': 'Al amanecer y al anochecer',
+  'activity.cathemeral': 'De día y de noche',
+
+  'conservation.ex': 'Extinto',
+  'conservation.ex.explanation': 'No se conoce ningún individuo vivo en ninguna parte.',
+  'conservation.ew': 'Extinto en estado silvestre',
+  'conservation.ew.explanation': 'Solo sobrevive en cautividad o en poblaciones muy alejadas de su área de distribución histórica.',
+  'conservation.cr': 'En peligro crítico',
+  'conservation.cr.explanation': 'Corre un riesgo extremadamente alto de extinción en estado silvestre.',
+  'conservation.en': 'En peligro',
+  'conservation.en.explanation': 'Corre un riesgo muy alto de extinción en estado silvestre.',
+  'conservation.vu': 'Vulnerable',
+  'conservation.vu.explanation': 'Corre un riesgo alto de extinción en estado silvestre.',
+  'conservation.nt': 'Casi amenazado',
+  'conservation.nt.explanation': 'Está cerca de entrar en una categoría de amenaza o probablemente lo haga pronto.',
+  'conservation.lc': 'Preocupación menor',
+  'conservation.lc.explanation': 'Es abundante y está muy extendido; hoy no corre riesgo de extinción.',
+  'conservation.dd': 'Datos insuficientes',
+  'conservation.dd.explanation': 'No hay información suficiente para evaluar su riesgo de extinción.',
+  'conservation.ne': 'No evaluado',
+  'conservation.ne.explanation': 'Todavía no se ha evaluado según los criterios de la Lista Roja de la UICN.',
+  'conservation.domesticated': 'Doméstico',
+  'conservation.domesticated.explanation': 'Es un animal doméstico. La Lista Roja de la UICN no evalúa las formas domésticas.',
+  'conservation.source': 'Categoría de la Lista Roja de la UICN',
+
+  'compare.button': 'Comparar',
+  'compare.buttonHint': 'Ver en qué se diferencia este animal de otro',
+  'compare.title': 'Comparar {name} con...',
+  'compare.back': 'Volver a los resultados',
+  'compare.pickTitle': 'Elige un segundo animal',
+  'compare.fromSession': 'De esta foto',
+  'compare.orUpload': 'O identifica otra foto',
+  'compare.noAnimal': 'No pudimos identificar ningún animal en esa foto. Prueba con otra.',
+  'compare.sameAnimal': 'Es la misma especie. Elige un animal diferente.',
+  'compare.change': 'Cambiar animal',
+  'compare.askBoth': 'Preguntar por ambos',
+  'compare.loading': 'Comparando...',
+  'compare.failed': 'No se pudieron comparar estos animales en este momento.',
+  'compare.features': 'Cómo distinguirlos',
+  'compare.size': 'Tamaño',
+  'compare.range': 'Distribución',
+  'compare.diet': 'Dieta',
+  'compare.overlap.none': 'Sus distribuciones no se superponen',
+  'compare.overlap.partial': 'Sus distribuciones se superponen en parte',
+  'compare.overlap.extensive': 'Sus distribuciones se superponen en gran parte',
+
+  'quiz.button': 'Cuestionario',
+  'quiz.buttonHint': 'Pon a prueba lo que aprendiste sobre este animal',
+  'quiz.lastScore': '{score}/{total}',
+  'quiz.title': 'Cuestionario: {name}',
+  'quiz.back': 'Volver a los resultados',
+  'quiz.loading': 'Preparando tu cuestionario...',
+  'quiz.failed': 'No se pudo crear un cuestionario en este momento.',
+  'quiz.progress': 'Pregunta {current} de {total}',
+  'quiz.score': 'Puntuación: {score}',
+  'quiz.type.multipleChoice': 'Opción múltiple',
+  'quiz.type.trueFalse': 'Verdadero o falso',
+  'quiz.correct': '¡Correcto!',
+  'quiz.incorrect': 'No exactamente. La respuesta es: {answer}',
+  'quiz.next': 'Siguiente pregunta',
+  'quiz.finish': 'Ver resultados',
+  'quiz.summaryTitle': '{score} de {total}',
+  'quiz.summary.great': '¡Excelente! Conoces bien a este animal.',
+  'quiz.summary.good': '¡Buen trabajo! Vale la pena repasar algunos detalles.',
+  'quiz.summary.low': 'Sigue explorando: repasa los resultados e inténtalo de nuevo.',
+  'quiz.previousBest': 'Mejor resultado anterior: {score}/{total}',
+  'quiz.yourAnswer': 'Tu respuesta: {answer}',
+  'quiz.correctAnswer': 'Respuesta correcta: {answer}',
+  'quiz.retake': 'Repetir cuestionario',
+  'quiz.newQuestions': 'Nuevas preguntas',
+
+  'chat.title': 'Pregunta sobre {name}',
+  'chat.close': 'Cerrar chat',
+  'chat.greeting': '¡Hola! Veo que encontraste un ejemplar de {name}. ¿Qué te gustaría saber?',
+  'chat.compareTitle': '{first} vs. {second}',
+  'chat.compareGreeting': '¡Hola! Comparemos {first} y {second}. ¿Qué te gustaría saber?',
+  'chat.voiceLabel': 'Voz',
+  'chat.attachmentAlt': 'Adjunto {index}',
+  'chat.removeAttachment': 'Quitar adjunto {index}',
+  'chat.attachPhotos': 'Adjuntar fotos',
+  'chat.attachHint': 'Adjunta un primer plano u otro ángulo',
+  'chat.attachFailed': 'No se pudo adjuntar esa foto.',
+  'chat.placeholder': 'Pregunta algo...',
+  'chat.stop': 'Detener respuesta',
+  'chat.send': 'Enviar',
+  'chat.connectionDropped': '_Se perdió la conexión antes de que pudiera terminar._',
+  'chat.error': 'Lo siento, hubo un error al conectar con la IA.',
+  'chat.stopped': '_Detenido._',
+  'chat.emptyReply': 'No pude generar una respuesta. Inténtalo de nuevo.',
+
+  'camera.denied': 'Se denegó el acceso a la cámara. Permítelo en los ajustes del navegador o sube una foto.',
+  'camera.notFound': 'No se encontró ninguna cámara en este dispositivo. Aún puedes subir una foto.',
+  'camera.inUse': 'Otra aplicación está usando la cámara. Ciérrala e inténtalo de nuevo.',
+  'camera.failed': 'No se pudo iniciar la cámara. Aún puedes subir una foto.',
+  'camera.unsupported': 'Este navegador no permite usar la cámara. Aún puedes subir una foto.',
+  'camera.uploadInstead': 'Subir una foto',
+  'camera.starting': 'Iniciando la cámara...',
+  'camera.cancel': 'Cancelar',
+  'camera.takePhoto': 'Tomar foto',
+  'camera.switch': 'Cambiar de cámara',
+
+  'settings.title': 'Ajustes del asistente',
+  'settings.subtitle': 'Se aplican al chat y al modo de voz. Se guardan en este dispositivo.',
+  'settings.close': 'Cerrar ajustes',
+  'settings.persona': 'Personaje',
+  'settings.language': 'Idioma',
+  'settings.languageAuto': 'Igual que la aplicación ({language})',
+  'settings.voice': 'Voz',
+  'settings.voice.firm': 'Firme',
+  'settings.voice.upbeat': 'Alegre',
+  'settings.voice.informative': 'Informativa',
+  'settings.voice.excitable': 'Entusiasta',
+  'settings.voice.breezy': 'Desenfadada',
+  'settings.voice.youthful': 'Juvenil',
+  'settings.voice.firmDeeper': 'Firme, más grave',
+  'settings.voice.bright': 'Luminosa',
+  'settings.done': 'Listo',
+
+  'persona.zoologist.label': 'Zoólogo experto',
+  'persona.zoologist.description': 'Amable, preciso y entusiasta.',
+  'persona.kidGuide.label': 'Guía para niños',
+  'persona.kidGuide.description': 'Palabras sencillas y comparaciones divertidas para pequeños exploradores.',
+  'persona.fieldBiologist.label': 'Biólogo de campo',
+  'persona.fieldBiologist.description': 'Detalle técnico sobre identificación, comportamiento y ecología.',
+  'persona.parkRanger.label': 'Guardaparques',
+  'persona.parkRanger.description': 'Seguridad, observación respetuosa de la fauna y conservación.',
+
+  'voice.close': 'Cerrar el modo de voz',
+  'voice.status.connecting': 'Conectando...',
+  'voice.status.muted': 'Silenciado',
+  'voice.status.listening': 'Escuchando...',
+  'voice.status.holdToTalk': 'Mantén pulsado para hablar',
+  'voice.status.speaking': 'Hablando...',
+  'voice.status.reconnecting': 'Reconectando...',
+  'voice.status.failed': 'Error de conexión',
+  'voice.reconnecting': 'Se perdió la conexión. Intento {attempt} de {max}; la conversación seguirá donde se quedó.',
+  'voice.hintPushToTalk': 'Pregunta sobre {name}. Mantén pulsado el botón o la barra espaciadora mientras hablas.',
+  'voice.hintOpenMic': 'Pregunta sobre {name}. Toca «Terminar» para cerrar.',
+  'voice.captions': 'Subtítulos en directo',
+  'voice.you': 'Tú',
+  'voice.micMode': 'Modo del micrófono',
+  'voice.openMic': 'Micrófono abierto',
+  'voice.pushToTalk': 'Pulsar para hablar',
+  'voice.unmute': 'Activar el micrófono',
+  'voice.mute': 'Silenciar el micrófono',
+  'voice.releaseToSend': 'Suelta para enviar',
+  'voice.holdToTalk': 'Mantén pulsado para hablar',
+  'voice.end': 'Terminar la sesión de voz',
+  'voice.micFailed': 'No se pudo acceder al micrófono.',
+  'voice.connectionLost': 'Se perdió la conexión. Cierra el modo de voz e inténtalo de nuevo.',
+
+  'journal.title': 'Diario de avistamientos',
+  'journal.count.one': '1 avistamiento guardado en este dispositivo',
+  'journal.count.other': '{count} avistamientos guardados en este dispositivo',
+  'journal.loadFailed': 'No se pudo cargar tu diario en este navegador.',
+  'journal.confirmDelete': '¿Eliminar tu avistamiento de {name}? No se puede deshacer.',
+  'journal.deleteFailed': 'No se pudo eliminar este avistamiento. Inténtalo de nuevo.',
+  'journal.delete': 'Eliminar el avistamiento de {name}',
+  'journal.exportSkipped.one': '{exported} exportados. 1 avistamiento quedó fuera:',
+  'journal.exportSkipped.other': '{exported} exportados. {count} avistamientos quedaron fuera:',
+  'journal.view': 'Vista del diario',
+  'journal.view.list': 'Lista',
+  'journal.view.map': 'Mapa',
+  'journal.search': 'Buscar por nombre o hábitat...',
+  'journal.allStatuses': 'Todos los estados de conservación',
+  'journal.export': 'Exportar',
+  'journal.empty': 'Aún no hay avistamientos. Cada animal que identifiques se guarda aquí automáticamente.',
+  'journal.identify': 'Identificar un animal',
+  'journal.noMatches': 'Ningún avistamiento coincide con tu búsqueda.',
+
+  'map.label': 'Mapa de {count} avistamientos',
+  'map.open': 'Abrir',
+  'map.noLocations': 'Ninguno de estos avistamientos tiene ubicación todavía. Aquí aparecen las fotos con datos GPS o las capturas de cámara con acceso a la ubicación.',
+  'map.unlocated.one': '1 avistamiento no tiene ubicación y no se muestra.',
+  'map.unlocated.other': '{count} avistamientos no tienen ubicación y no se muestran.',
+
+  'photo.fallbackLabel': 'Animal {index}',
+  'photo.showDetails': 'Ver detalles de {name}',
+};
@@ -0,0 +1,305 @@
+import { MessageKey } from './en';
+
+export const pt: Record<MessageKey, string> = {
+  'nav.journal': 'Diário',
+  'nav.newScan': 'Nova análise',
+  'nav.settings': 'Configurações do assistente',
+  'nav.language': 'Idioma',
+
+  'upload.title': 'Descubra o reino animal',
+  'upload.subtitle': 'Identifique animais na hora, aprenda fatos fascinantes e converse com nosso zoólogo de IA.',
+
+  'analyzing.title': 'Analisando a imagem...',
+  'analyzing.optimized': 'Otimizada {from} → {to}',
+  'analyzing.cancel': 'Cancelar',
+
+  'unidentified.noAnimal.title': 'Não encontramos nenhum animal',
+  'unidentified.noAnimal.hint': 'Verifique se o animal está no enquadramento e tente outra foto.',
+  'unidentified.poorQuality.title': 'Esta foto está difícil de ler',
+  'unidentified.poorQuality.hint': 'Ela parece muito borrada, escura ou pequena. Tente de novo com as mãos mais firmes ou com mais luz.',
+  'unidentified.multiple.title': 'Há mais de um animal aqui',
+  'unidentified.multiple.hint': 'Chegue mais perto ou recorte a foto para que um único animal ocupe quase todo o enquadramento.',
+  'unidentified.photoAlt': 'Sua foto',
+
+  'error.title': 'Ops! Algo deu errado',
+  'error.fallback': 'Não conseguimos processar sua solicitação.',
+  'error.identify': 'Não foi possível identificar o animal. Verifique se a imagem está nítida e tente novamente.',
+  'error.invalidResponse': 'A resposta da IA veio incompleta ou com erros, mesmo depois de pedirmos que tentasse de novo. Isso costuma ser passageiro, então tente mais uma vez.',
+  'error.timeout': 'A IA demorou demais para responder. Verifique sua conexão e tente novamente.',
+  'error.busy': 'O serviço de IA está sobrecarregado agora. Aguarde um pouco e tente novamente.',
+  'error.retry': 'Tentar novamente',
+
+  'export.notReady': 'Este avistamento ainda não pode ser exportado.',
+  'export.issue.missingOccurrenceId': 'Falta o identificador do registro',
+  'export.issue.missingScientificName': 'Falta o nome científico',
+  'export.issue.invalidScientificName': '"{name}" não é um binômio latino',
+  'export.issue.invalidEventDate': '"{date}" não é uma data ISO 8601',
+  'export.issue.incompleteCoordinates': 'As coordenadas precisam de latitude e longitude',
+  'export.issue.latitudeRange': 'A latitude deve estar entre -90 e 90',
+  'export.issue.longitudeRange': 'A longitude deve estar entre -180 e 180',
+
+  'footer.credit': '© {year} Eye Animal. Com tecnologia Google Gemini.',
+
+  'uploader.invalidFile': 'Envie um arquivo de imagem válido.',
+  'uploader.readFailed': 'Não foi possível ler esta imagem.',
+  'uploader.title': 'Identifique um animal',
+  'uploader.clickToUpload': 'Clique para enviar',
+  'uploader.orDragAndDrop': 'ou arraste e solte',
+  'uploader.selectImage': 'Escolher imagem',
+  'uploader.useCamera': 'Usar câmera',
+  'uploader.formats': 'Aceita JPG, PNG, WEBP e HEIC',
+
+  'results.photoAlt': 'Animal enviado',
+  'results.yourPhoto': 'Sua foto',
+  'results.yourPhotoCount': 'Sua foto · {count} animais',
+  'results.findingAnimals': 'Procurando animais...',
+  'results.findAllAnimals': 'Encontrar todos os animais',
+  'results.topMatch': 'Melhor correspondência',
+  'results.alternativeMatch': 'Correspondência alternativa',
+  'results.confidence': '{value} de confiança',
+  'results.habitat': 'Habitat',
+  'results.diet': 'Dieta',
+  'results.visualCues': 'Pistas visuais',
+  'results.funFact': 'Curiosidade:',
+  'results.chat': 'Chat',
+  'results.voiceMode': 'Modo de voz',
+  'results.export': 'Exportar',
+  'results.exportHint': 'Baixar um registro Darwin Core com a foto',
+  'results.otherPossibilities': 'Outras possibilidades',
+  'results.similarImages': 'Imagens semelhantes',
+  'results.similarImageAlt': '{name}, variação {index}',
+  'results.aiGenerated': 'Visualização gerada por IA',
+  'results.reanalyze': 'Analisar novamente',
+  'results.reanalyzeHint': 'Ignorar a resposta salva para esta foto e perguntar à IA de novo',
+  'results.profile': 'Perfil',
+
+  'gallery.style': 'Estilo',
+  'gallery.count': 'Imagens',
+  'gallery.generate': 'Gerar',
+  'gallery.failed': '{style}: não foi possível gerar esta imagem.',
+  'gallery.retry': 'Tentar novamente',
+  'gallery.open': 'Ampliar {name}',
+
+  'edit.title': 'Edite sua foto',
+  'edit.subtitle': 'O modelo de imagens retoca a foto que você tirou.',
+  'edit.preset.naturalHabitat': 'Colocar no seu habitat',
+  'edit.preset.removeBackground': 'Remover o fundo',
+  'edit.preset.juvenileForm': 'Mostrar o filhote',
+  'edit.preset.sizeComparison': 'Comparar o tamanho com uma pessoa',
+  'edit.preset.custom': 'Sua própria instrução',
+  'edit.customPlaceholder': 'ex.: transforme em uma cena de inverno com neve',
+  'edit.apply': 'Editar foto',
+  'edit.applying': 'Editando...',
+  'edit.failed': 'Não foi possível editar a foto. Tente novamente ou escolha outra edição.',
+  'edit.before': 'Antes',
+  'edit.after': 'Depois',
+  'edit.sliderLabel': 'Arraste para comparar a foto original com a editada',
+  'edit.newVersion': 'Nova versão',
+
+  'imageStyle.habitat': 'Cena no habitat',
+  'imageStyle.portrait': 'Retrato',
+  'imageStyle.scientificIllustration': 'Ilustração científica',
+  'imageStyle.juvenile': 'Filhote',
+  'imageStyle.rangeDiorama': 'Diorama da distribuição',
+
+  'lightbox.close': 'Fechar',
+  'lightbox.download': 'Baixar',
+  'lightbox.regenerate': 'Gerar esta de novo',
+
+  'taxonomy.label': 'Taxonomia',
+  'taxonomy.lookUp': 'Pesquisar {name} na Wikipédia',
+  'taxonomy.kingdom': 'Reino',
+  'taxonomy.phylum': 'Filo',
+  'taxonomy.class': 'Classe',
+  'taxonomy.order': 'Ordem',
+  'taxonomy.family': 'Família',
+  'taxonomy.genus': 'Gênero',
+  'taxonomy.species': 'Espécie',
+
+  'stats.size': 'Tamanho',
+  'stats.weight': 'Peso',
+  'stats.lifespan': 'Expectativa de vida',
+  'stats.activity': 'Atividade',
+  'stats.nativeRange': 'Distribuição nativa',
+
+  'activity.diurnal': 'De dia',
+  'activity.nocturnal': 'À noite',
+  'activity.crepuscular': 'Ao amanhecer e ao entardecer',
+  'activity.cathemeral': 'Dia e noite',
+
+  'conservation.ex': 'Extinto',
+  'conservation.ex.explanation': 'Não se conhece nenhum indivíduo vivo em lugar algum.',
+  'conservation.ew': 'Extinto na natureza',
+  'conservation.ew.explanation': 'Sobrevive apenas em cativeiro ou em populações muito fora de sua distribuição histórica.',
+  'conservation.cr': 'Criticamente em perigo',
+  'conservation.cr.explanation': 'Corre um risco extremamente alto de extinção na natureza.',
+  'conservation.en': 'Em perigo',
+  'conservation.en.explanation': 'Corre um risco muito alto de extinção na natureza.',
+  'conservation.vu': 'Vulnerável',
+  'conservation.vu.explanation': 'Corre um risco alto de extinção na natureza.',
+  'conservation.nt': 'Quase ameaçado',
+  'conservation.nt.explanation': 'Está perto de entrar em uma categoria de ameaça ou provavelmente entrará em breve.',
+  'conservation.lc': 'Pouco preocupante',
+  'conservation.lc.explanation': 'É abundante e amplamente distribuído; hoje não corre risco de extinção.',
+  'conservation.dd': 'Dados insuficientes',
+  'conservation.dd.explanation': 'Não há informação suficiente para avaliar seu risco de extinção.',
+  'conservation.ne': 'Não avaliado',
+  'conservation.ne.explanation': 'Ainda não foi avaliado segundo os critérios da Lista Vermelha da IUCN.',
+  'conservation.domesticated': 'Doméstico',
+  'conservation.domesticated.explanation': 'É um animal doméstico. A Lista Vermelha da IUCN não avalia formas domésticas.',
+  'conservation.source': 'Categoria da Lista Vermelha da IUCN',
+
+  'compare.button': 'Comparar',
+  'compare.buttonHint': 'Ver como este animal difere de outro',
+  'compare.title': 'Comparar {name} com...',
+  'compare.back': 'Voltar aos resultados',
+  'compare.pickTitle': 'Escolha um segundo animal',
+  'compare.fromSession': 'Desta foto',
+  'compare.orUpload': 'Ou identifique outra foto',
+  'compare.noAnimal': 'Não conseguimos identificar nenhum animal nessa foto. Tente outra.',
+  'compare.sameAnimal': 'É a mesma espécie. Escolha um animal diferente.',
+  'compare.change': 'Trocar animal',
+  'compare.askBoth': 'Perguntar sobre os dois',
+  'compare.loading': 'Comparando...',
+  'compare.failed': 'Não foi possível comparar estes animais agora.',
+  'compare.features': 'Como diferenciá-los',
+  'compare.size': 'Tamanho',
+  'compare.range': 'Distribuição',
+  'compare.diet': 'Dieta',
+  'compare.overlap.none': 'As distribuições não se sobrepõem',
+  'compare.overlap.partial': 'As distribuições se sobrepõem em parte',
+  'compare.overlap.extensive': 'As distribuições se sobrepõem em grande parte',
+
+  'quiz.button': 'Quiz',
+  'quiz.buttonHint': 'Teste o que você aprendeu sobre este animal',
+  'quiz.lastScore': '{score}/{total}',
+  'quiz.title': 'Quiz: {name}',
+  'quiz.back': 'Voltar aos resultados',
+  'quiz.loading': 'Preparando seu quiz...',
+  'quiz.failed': 'Não foi possível criar um quiz agora.',
+  'quiz.progress': 'Pergunta {current} de {total}',
+  'quiz.score': 'Pontuação: {score}',
+  'quiz.type.multipleChoice': 'Múltipla escolha',
+  'quiz.type.trueFalse': 'Verdadeiro ou falso',
+  'quiz.correct': 'Correto!',
+  'quiz.incorrect': 'Não exatamente. A resposta é: {answer}',
+  'quiz.next': 'Próxima pergunta',
+  'quiz.finish': 'Ver resultados',
+  'quiz.summaryTitle': '{score} de {total}',
+  'quiz.summary.great': 'Excelente! Você conhece bem este animal.',
+  'quiz.summary.good': 'Bom trabalho! Vale a pena rever alguns detalhes.',
+  'quiz.summary.low': 'Continue explorando: revise os resultados e tente de novo.',
+  'quiz.previousBest': 'Melhor resultado anterior: {score}/{total}',
+  'quiz.yourAnswer': 'Sua resposta: {answer}',
+  'quiz.correctAnswer': 'Resposta correta: {answer}',
+  'quiz.retake': 'Refazer quiz',
+  'quiz.newQuestions': 'Novas perguntas',
+
+  'chat.title': 'Pergunte sobre {name}',
+  'chat.close': 'Fechar chat',
+  'chat.greeting': 'Olá! Vejo que você encontrou um(a) {name}. O que gostaria de saber?',
+  'chat.compareTitle': '{first} vs. {second}',
+  'chat.compareGreeting': 'Olá! Vamos comparar {first} e {second}. O que você gostaria de saber?',
+  'chat.voiceLabel': 'Voz',
+  'chat.attachmentAlt': 'Anexo {index}',
+  'chat.removeAttachment': 'Remover anexo {index}',
+  'chat.attachPhotos': 'Anexar fotos',
+  'chat.attachHint': 'Anexe um close ou outro ângulo',
+  'chat.attachFailed': 'Não foi possível anexar essa foto.',
+  'chat.placeholder': 'Pergunte algo...',
+  'chat.stop': 'Parar resposta',
+  'chat.send': 'Enviar',
+  'chat.connectionDropped': '_A conexão caiu antes que eu pudesse terminar._',
+  'chat.error': 'Desculpe, ocorreu um erro ao conectar com a IA.',
+  'chat.stopped': '_Interrompido._',
+  'chat.emptyReply': 'Não consegui gerar uma resposta. Tente novamente.',
+
+  'camera.denied': 'O acesso à câmera foi negado. Permita o acesso nas configurações do navegador ou envie uma foto.',
+  'camera.notFound': 'Nenhuma câmera foi encontrada neste dispositivo. Você ainda pode enviar uma foto.',
+  'camera.inUse': 'A câmera está sendo usada por outro app. Feche-o e tente novamente.',
+  'camera.failed': 'Não foi possível iniciar a câmera. Você ainda pode enviar uma foto.',
+  'camera.unsupported': 'Este navegador não permite usar a câmera. Você ainda pode enviar uma foto.',
+  'camera.uploadInstead': 'Enviar uma foto',
+  'camera.starting': 'Iniciando a câmera...',
+  'camera.cancel': 'Cancelar',
+  'camera.takePhoto': 'Tirar foto',
+  'camera.switch': 'Trocar câmera',
+
+  'settings.title': 'Configurações do assistente',
+  'settings.subtitle': 'Valem para o chat e o modo de voz. Salvas neste dispositivo.',
+  'settings.close': 'Fechar configurações',
+  'settings.persona': 'Persona',
+  'settings.language': 'Idioma',
+  'settings.languageAuto': 'Igual ao app ({language})',
+  'settings.voice': 'Voz',
+  'settings.voice.firm': 'Firme',
+  'settings.voice.upbeat': 'Animada',
+  'settings.voice.informative': 'Informativa',
+  'settings.voice.excitable': 'Empolgada',
+  'settings.voice.breezy': 'Descontraída',
+  'settings.voice.youthful': 'Jovial',
+  'settings.voice.firmDeeper': 'Firme, mais grave',
+  'settings.voice.bright': 'Brilhante',
+  'settings.done': 'Concluído',
+
+  'persona.zoologist.label': 'Zoólogo especialista',
+  'persona.zoologist.description': 'Simpático, preciso e entusiasmado.',
+  'persona.kidGuide.label': 'Guia para crianças',
+  'persona.kidGuide.description': 'Palavras simples e comparações divertidas para pequenos exploradores.',
+  'persona.fieldBiologist.label': 'Biólogo de campo',
+  'persona.fieldBiologist.description': 'Detalhes técnicos sobre identificação, comportamento e ecologia.',
+  'persona.parkRanger.label': 'Guarda-parque',
+  'persona.parkRanger.description': 'Segurança, observação respeitosa da fauna e conservação.',
+
+  'voice.close': 'Fechar o modo de voz',
+  'voice.status.connecting': 'Conectando...',
+  'voice.status.muted': 'Sem som',
+  'voice.status.listening': 'Ouvindo...',
+  'voice.status.holdToTalk': 'Segure para falar',
+  'voice.status.speaking': 'Falando...',
+  'voice.status.reconnecting': 'Reconectando...',
+  'voice.status.failed': 'Falha na conexão',
+  'voice.reconnecting': 'A conexão caiu. Tentativa {attempt} de {max}; a conversa continuará de onde parou.',
+  'voice.hintPushToTalk': 'Pergunte sobre {name}. Segure o botão ou a barra de espaço enquanto fala.',
+  'voice.hintOpenMic': 'Pergunte sobre {name}. Toque em "Encerrar" para fechar.',
+  'voice.captions': 'Legendas ao vivo',
+  'voice.you': 'Você',
+  'voice.micMode': 'Modo do microfone',
+  'voice.openMic': 'Microfone aberto',
+  'voice.pushToTalk': 'Apertar para falar',
+  'voice.unmute': 'Ativar o microfone',
+  'voice.mute': 'Silenciar o microfone',
+  'voice.releaseToSend': 'Solte para enviar',
+  'voice.holdToTalk': 'Segure para falar',
+  'voice.end': 'Encerrar a sessão de voz',
+  'voice.micFailed': 'Não foi possível acessar o microfone.',
+  'voice.connectionLost': 'A conexão foi perdida. Feche o modo de voz e tente novamente.',
+
+  'journal.title': 'Diário de avistamentos',
+  'journal.count.one': '1 avistamento salvo neste dispositivo',
+  'journal.count.other': '{count} avistamentos salvos neste dispositivo',
+  'journal.loadFailed': 'Não foi possível carregar seu diário neste navegador.',
+  'journal.confirmDelete': 'Excluir seu avistamento de {name}? Isso não pode ser desfeito.',
+  'journal.deleteFailed': 'Não foi possível excluir este avistamento. Tente novamente.',
+  'journal.delete': 'Excluir o avistamento de {name}',
+  'journal.exportSkipped.one': '{exported} exportados. 1 avistamento ficou de fora:',
+  'journal.exportSkipped.other': '{exported} exportados. {count} avistamentos ficaram de fora:',
+  'journal.view': 'Visualização do diário',
+  'journal.view.list': 'Lista',
+  'journal.view.map': 'Mapa',
+  'journal.search': 'Buscar por nome ou habitat...',
+  'journal.allStatuses': 'Todos os estados de conservação',
+  'journal.export': 'Exportar',
+  'journal.empty': 'Ainda não há avistamentos. Cada animal que você identificar é salvo aqui automaticamente.',
+  'journal.identify': 'Identificar um animal',
+  'journal.noMatches': 'Nenhum avistamento corresponde à sua busca.',
+
+  'map.label': 'Mapa de {count} avistamentos',
+  'map.open': 'Abrir',
+  'map.noLocations': 'Nenhum destes avistamentos tem localização ainda. Fotos com dados de GPS, ou capturas da câmera com acesso à localização, aparecem aqui.',
+  'map.unlocated.one': '1 avistamento não tem localização e não é exibido.',
+  'map.unlocated.other': '{count} avistamentos não têm localização e não são exibidos.',
+
+  'photo.fallbackLabel': 'Animal {index}',
+  'photo.showDetails': 'Ver detalhes de {name}',
+};
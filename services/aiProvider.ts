@@ -0,0 +1,238 @@
+import { ActivityPattern, AnimalComparison, AnimalDetails, AnimalDetection, AssistantSettings, BoundingBox, ChatImage, ChatMessage, DurationUnit, GeneratedImage, IdentificationCandidate, IdentificationOutcome, IdentificationResult, ImageStyle, LengthUnit, Locale, MassUnit, Measurement, PhotoEditRequest, PhotoMetadata, Quiz, QuizQuestionType, Taxonomy } from "../types";
+import { parseConservationStatus } from "./conservationStatus";
+import { InvalidModelResponseError, SchemaViolation } from "./responseValidation";
+
+export interface AnalysisOptions {
+  /** Lets the backend rule out species that don't occur where the photo was taken. */
+  metadata?: PhotoMetadata;
+  /** Language for names and descriptions; scientific names always stay Latin. */
+  locale?: Locale;
+  signal?: AbortSignal;
+}
+
+export interface SimilarImageOptions {
+  /** Language `animalName` is written in. */
+  locale?: Locale;
+  signal?: AbortSignal;
+}
+
+export interface PhotoEditOptions {
+  /** The identified animal, so the instruction can refer to it by name. */
+  animalName: string;
+  /** Language `animalName` is written in. */
+  locale?: Locale;
+  signal?: AbortSignal;
+}
+
+export interface ComparisonOptions {
+  /** Language for the comparison text. */
+  locale?: Locale;
+  signal?: AbortSignal;
+}
+
+export interface QuizOptions {
+  /** Language for questions, answers and explanations. */
+  locale?: Locale;
+  signal?: AbortSignal;
+}
+
+export interface ChatTurnOptions {
+  /** Photos attached to this message, e.g. a close-up or a second angle. */
+  images?: ChatImage[];
+  /** Aborting ends a streamed reply early. */
+  signal?: AbortSignal;
+}
+
+export interface ChatSessionOptions {
+  /** Resumes an earlier conversation, e.g. when reopening a sighting. */
+  history?: ChatMessage[];
+  /** The identified image, so the model can answer questions about it. */
+  photo?: ChatImage;
+  settings?: AssistantSettings;
+  /** A second animal the user is comparing against; the chat then covers both. */
+  comparedWith?: AnimalDetails;
+}
+
+/**
+ * A chat session scoped to a single identified animal.
+ */
+export interface AnimalChatSession {
+  sendMessage: (message: string, options?: ChatTurnOptions) => Promise<string>;
+  /** Yields the reply in chunks as they arrive. */
+  sendMessageStream: (message: string, options?: ChatTurnOptions) => AsyncGenerator<string>;
+}
+
+/**
+ * Raw PCM audio sent to a live voice session.
+ */
+export interface LiveAudioChunk {
+  data: string;
+  mimeType: string;
+}
+
+export interface LiveSessionCallbacks {
+  onOpen: () => void;
+  /** Base64 encoded 24kHz PCM16 audio from the model. */
+  onAudio: (base64Audio: string) => void;
+  onInterrupted: () => void;
+  onTurnComplete: () => void;
+  /** Incremental transcription text; consecutive pieces for the same speaker belong to one turn. */
+  onTranscription: (role: ChatMessage['role'], text: string) => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface LiveSessionOptions {
+  animalData: AnimalDetails;
+  callbacks: LiveSessionCallbacks;
+  /** Earlier turns, so a reconnected session can pick up where the last one stopped. */
+  history?: ChatMessage[];
+  settings?: AssistantSettings;
+}
+
+export interface LiveVoiceSession {
+  sendAudio: (chunk: LiveAudioChunk) => void;
+  /** Tells the backend the microphone went quiet (mute, push-to-talk release). */
+  endAudioStream: () => void;
+  close: () => void;
+}
+
+/**
+ * Everything the UI needs from an AI backend. Implementations must not
+ * touch React state and must stop work when a `signal` aborts; components
+ * talk to them through geminiService, which adds timeouts and retries.
+ */
+export interface AnimalAIProvider {
+  readonly name: string;
+  identifyAnimal: (base64Image: string, mimeType: string, options?: AnalysisOptions) => Promise<IdentificationResult>;
+  detectAnimals: (base64Image: string, mimeType: string, options?: AnalysisOptions) => Promise<AnimalDetection[]>;
+  /** Generates one image of the animal in the given style. */
+  generateSimilarImage: (animalName: string, style: ImageStyle, options?: SimilarImageOptions) => Promise<GeneratedImage>;
+  /** The prompt `generateSimilarImage` would send; part of the cache key for its image. */
+  similarImagePrompt: (animalName: string, style: ImageStyle, locale?: Locale) => string;
+  /** Reworks the user's own photo following a preset or a custom instruction. */
+  editPhoto: (base64Image: string, mimeType: string, edit: PhotoEditRequest, options: PhotoEditOptions) => Promise<GeneratedImage>;
+  /** Contrasts two animals point by point; "first" always refers to `first`. */
+  compareAnimals: (first: AnimalDetails, second: AnimalDetails, options?: ComparisonOptions) => Promise<AnimalComparison>;
+  /** A short quiz on the animal, drawn from `animalData` rather than new facts. */
+  generateQuiz: (animalData: AnimalDetails, options?: QuizOptions) => Promise<Quiz>;
+  createChat: (animalData: AnimalDetails, options?: ChatSessionOptions) => AnimalChatSession;
+  connectLive: (options: LiveSessionOptions) => Promise<LiveVoiceSession>;
+}
+
+export const LENGTH_UNITS: LengthUnit[] = ['millimeter', 'centimeter', 'meter'];
+export const MASS_UNITS: MassUnit[] = ['gram', 'kilogram'];
+export const DURATION_UNITS: DurationUnit[] = ['day', 'week', 'month', 'year'];
+
+export const TAXONOMIC_RANKS: (keyof Taxonomy)[] = ['kingdom', 'phylum', 'class', 'order', 'family', 'genus', 'species'];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, Number(value) || 0));
+
+/**
+ * Drops ranges that aren't positive numbers in a known unit and fixes swapped bounds.
+ */
+const normalizeMeasurement = <Unit extends string>(measurement: Measurement<Unit> | undefined, units: Unit[]): Measurement<Unit> | undefined => {
+  if (!measurement || !units.includes(measurement.unit)) return undefined;
+  const min = Number(measurement.min);
+  const max = Number(measurement.max);
+  if (!(min > 0) || !(max > 0)) return undefined;
+  return { min: Math.min(min, max), max: Math.max(min, max), unit: measurement.unit };
+};
+
+/**
+ * Keeps a taxonomy only when every rank is filled in.
+ */
+const normalizeTaxonomy = (taxonomy: Taxonomy | undefined): Taxonomy | undefined =>
+  taxonomy && TAXONOMIC_RANKS.every(rank => typeof taxonomy[rank] === 'string' && taxonomy[rank].trim())
+    ? taxonomy
+    : undefined;
+
+/**
+ * Clamps confidences to [0, 1], maps the conservation status onto the IUCN
+ * categories, drops malformed biometrics and sorts candidates from most to
+ * least likely.
+ */
+const rankCandidates = (candidates: IdentificationCandidate[] | undefined): IdentificationCandidate[] =>
+  (candidates ?? [])
+    .map(candidate => ({
+      ...candidate,
+      confidence: clamp01(candidate.confidence),
+      conservationStatus: parseConservationStatus(candidate.conservationStatus),
+      distinguishingFeatures: candidate.distinguishingFeatures ?? [],
+      taxonomy: normalizeTaxonomy(candidate.taxonomy),
+      size: normalizeMeasurement(candidate.size, LENGTH_UNITS),
+      weight: normalizeMeasurement(candidate.weight, MASS_UNITS),
+      lifespan: normalizeMeasurement(candidate.lifespan, DURATION_UNITS),
+      activityPattern: Object.values(ActivityPattern).includes(candidate.activityPattern as ActivityPattern)
+        ? candidate.activityPattern
+        : undefined,
+      nativeRange: (candidate.nativeRange ?? []).filter(region => typeof region === 'string' && region.trim()),
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+/**
+ * Rules a schema can't express: a found animal needs at least one candidate.
+ */
+export const checkIdentification = (result: IdentificationResult): SchemaViolation[] =>
+  result.outcome === IdentificationOutcome.ANIMAL_FOUND && (result.candidates ?? []).length === 0
+    ? [{ path: 'candidates', message: 'should not be empty when the outcome is ANIMAL_FOUND' }]
+    : [];
+
+/**
+ * Rules a schema can't express: true/false questions have exactly two
+ * options, multiple-choice ones at least three, and every answer index
+ * points at one of them.
+ */
+export const checkQuiz = (quiz: Quiz): SchemaViolation[] =>
+  (quiz.questions ?? []).flatMap((question, idx): SchemaViolation[] => {
+    const options = question.options ?? [];
+    const violations: SchemaViolation[] = [];
+    if (question.type === QuizQuestionType.TRUE_FALSE && options.length !== 2) {
+      violations.push({ path: `questions.${idx}.options`, message: 'should have exactly 2 items for a TRUE_FALSE question' });
+    }
+    if (question.type === QuizQuestionType.MULTIPLE_CHOICE && options.length < 3) {
+      violations.push({ path: `questions.${idx}.options`, message: 'should have at least 3 items for a MULTIPLE_CHOICE question' });
+    }
+    if (!(question.correctIndex >= 0 && question.correctIndex < options.length)) {
+      violations.push({ path: `questions.${idx}.correctIndex`, message: `should be between 0 and ${options.length - 1}` });
+    }
+    return violations;
+  });
+
+/**
+ * Fills in a missing outcome and ranks the candidates.
+ */
+export const normalizeIdentification = (result: IdentificationResult): IdentificationResult => {
+  const candidates = rankCandidates(result.candidates);
+
+  const outcome = Object.values(IdentificationOutcome).includes(result.outcome)
+    ? result.outcome
+    : candidates.length > 0 ? IdentificationOutcome.ANIMAL_FOUND : IdentificationOutcome.NO_ANIMAL;
+
+  const violations = checkIdentification({ ...result, outcome, candidates });
+  if (violations.length > 0) throw new InvalidModelResponseError(violations);
+
+  return {
+    ...result,
+    outcome,
+    candidates: outcome === IdentificationOutcome.ANIMAL_FOUND ? candidates : [],
+  };
+};
+
+/**
+ * Clamps boxes to the image, fixes swapped edges, ranks each detection's
+ * candidates and drops detections that ended up empty.
+ */
+export const normalizeDetections = (detections: AnimalDetection[]): AnimalDetection[] =>
+  detections
+    .map(detection => {
+      const { xMin, yMin, xMax, yMax } = detection.box;
+      const box: BoundingBox = {
+        xMin: clamp01(Math.min(xMin, xMax)),
+        yMin: clamp01(Math.min(yMin, yMax)),
+        xMax: clamp01(Math.max(xMin, xMax)),
+        yMax: clamp01(Math.max(yMin, yMax)),
+      };
+      return { box, candidates: rankCandidates(detection.candidates) };
+    })
+    .filter(detection => detection.candidates.length > 0 && detection.box.xMax > detection.box.xMin && detection.box.yMax > detection.box.yMin);
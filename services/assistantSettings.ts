@@ -0,0 +1,133 @@
+import { AssistantSettings, Locale, PersonaPreset } from "../types";
+import { MessageKey } from "./i18n";
+
+const STORAGE_KEY = 'eye-animal:assistant-settings';
+
+export interface VoiceOption {
+  name: string;
+  description: MessageKey;
+}
+
+export interface LanguageOption {
+  code: string;
+  /** Native name, shown in the settings panel. */
+  label: string;
+  /** English name, used in prompts. */
+  englishName: string;
+}
+
+export interface PersonaOption {
+  label: MessageKey;
+  description: MessageKey;
+  /** Completes "You are ..." in the system instruction. */
+  role: string;
+  /** Extra guidance on tone and content. */
+  style: string;
+}
+
+// A subset of the Live API's prebuilt voices
+export const VOICE_OPTIONS: VoiceOption[] = [
+  { name: 'Kore', description: 'settings.voice.firm' },
+  { name: 'Puck', description: 'settings.voice.upbeat' },
+  { name: 'Charon', description: 'settings.voice.informative' },
+  { name: 'Fenrir', description: 'settings.voice.excitable' },
+  { name: 'Aoede', description: 'settings.voice.breezy' },
+  { name: 'Leda', description: 'settings.voice.youthful' },
+  { name: 'Orus', description: 'settings.voice.firmDeeper' },
+  { name: 'Zephyr', description: 'settings.voice.bright' },
+];
+
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+  { code: 'en-US', label: 'English', englishName: 'English' },
+  { code: 'es-ES', label: 'Español', englishName: 'Spanish' },
+  { code: 'pt-BR', label: 'Português', englishName: 'Portuguese' },
+  { code: 'fr-FR', label: 'Français', englishName: 'French' },
+  { code: 'de-DE', label: 'Deutsch', englishName: 'German' },
+  { code: 'it-IT', label: 'Italiano', englishName: 'Italian' },
+  { code: 'hi-IN', label: 'हिन्दी', englishName: 'Hindi' },
+  { code: 'ja-JP', label: '日本語', englishName: 'Japanese' },
+];
+
+export const PERSONAS: Record<PersonaPreset, PersonaOption> = {
+  zoologist: {
+    label: 'persona.zoologist.label',
+    description: 'persona.zoologist.description',
+    role: 'a friendly expert zoologist',
+    style: 'Be accurate and enthusiastic.',
+  },
+  kidGuide: {
+    label: 'persona.kidGuide.label',
+    description: 'persona.kidGuide.description',
+    role: 'a playful nature guide talking with children aged about 6 to 10',
+    style: 'Use simple words, short sentences and fun comparisons to everyday things. Leave out gory or frightening details.',
+  },
+  fieldBiologist: {
+    label: 'persona.fieldBiologist.label',
+    description: 'persona.fieldBiologist.description',
+    role: 'a field biologist briefing a colleague',
+    style: 'Be precise and use scientific terminology. Cover identification features, behaviour and ecology, and say when something is uncertain.',
+  },
+  parkRanger: {
+    label: 'persona.parkRanger.label',
+    description: 'persona.parkRanger.description',
+    role: 'a park ranger',
+    style: 'Emphasise staying safe, keeping a respectful distance, leaving no trace and why the animal matters for conservation. Keep a calm, practical tone.',
+  },
+};
+
+// Answer language for each interface locale, used until the user picks one
+const LOCALE_LANGUAGES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  pt: 'pt-BR',
+};
+
+export const DEFAULT_ASSISTANT_SETTINGS: AssistantSettings = {
+  voiceName: 'Kore',
+  persona: 'zoologist',
+};
+
+/**
+ * Reads saved settings, falling back to defaults for anything missing or no longer offered.
+ */
+export const loadAssistantSettings = (): AssistantSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<AssistantSettings>;
+    return {
+      voiceName: VOICE_OPTIONS.some(v => v.name === saved.voiceName) ? saved.voiceName! : DEFAULT_ASSISTANT_SETTINGS.voiceName,
+      language: LANGUAGE_OPTIONS.some(l => l.code === saved.language) ? saved.language : undefined,
+      persona: saved.persona && Object.hasOwn(PERSONAS, saved.persona) ? saved.persona : DEFAULT_ASSISTANT_SETTINGS.persona,
+    };
+  } catch (error) {
+    console.warn("Could not read assistant settings:", error);
+    return DEFAULT_ASSISTANT_SETTINGS;
+  }
+};
+
+export const saveAssistantSettings = (settings: AssistantSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save assistant settings:", error);
+  }
+};
+
+/**
+ * Fills in the answer language from the interface locale unless the user chose one.
+ */
+export const resolveAssistantSettings = (settings: AssistantSettings, locale: Locale): AssistantSettings =>
+  settings.language ? settings : { ...settings, language: LOCALE_LANGUAGES[locale] };
+
+export const getLanguageName = (code = ''): string =>
+  LANGUAGE_OPTIONS.find(l => l.code === code)?.englishName ?? 'English';
+
+/**
+ * The persona and language part of a system instruction, shared by chat and voice.
+ */
+export const describeAssistant = (settings: AssistantSettings = DEFAULT_ASSISTANT_SETTINGS) => {
+  const persona = PERSONAS[settings.persona] ?? PERSONAS.zoologist;
+  return {
+    role: persona.role,
+    guidance: `${persona.style} Reply in ${getLanguageName(settings.language)} unless the user asks for another language.`,
+  };
+};
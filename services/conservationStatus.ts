@@ -0,0 +1,110 @@
+import { ConservationStatus, Sighting } from "../types";
+import { MessageKey } from "./i18n";
+
+// Ordered from most to least threatened, then the categories without an assessment
+export const CONSERVATION_STATUSES: ConservationStatus[] = [
+  ConservationStatus.EXTINCT,
+  ConservationStatus.EXTINCT_IN_THE_WILD,
+  ConservationStatus.CRITICALLY_ENDANGERED,
+  ConservationStatus.ENDANGERED,
+  ConservationStatus.VULNERABLE,
+  ConservationStatus.NEAR_THREATENED,
+  ConservationStatus.LEAST_CONCERN,
+  ConservationStatus.DATA_DEFICIENT,
+  ConservationStatus.NOT_EVALUATED,
+  ConservationStatus.DOMESTICATED,
+];
+
+/** Official English names, used in prompts and to recognise free-text statuses. */
+export const IUCN_NAMES: Record<ConservationStatus, string> = {
+  [ConservationStatus.EXTINCT]: 'Extinct',
+  [ConservationStatus.EXTINCT_IN_THE_WILD]: 'Extinct in the Wild',
+  [ConservationStatus.CRITICALLY_ENDANGERED]: 'Critically Endangered',
+  [ConservationStatus.ENDANGERED]: 'Endangered',
+  [ConservationStatus.VULNERABLE]: 'Vulnerable',
+  [ConservationStatus.NEAR_THREATENED]: 'Near Threatened',
+  [ConservationStatus.LEAST_CONCERN]: 'Least Concern',
+  [ConservationStatus.DATA_DEFICIENT]: 'Data Deficient',
+  [ConservationStatus.NOT_EVALUATED]: 'Not Evaluated',
+  [ConservationStatus.DOMESTICATED]: 'Domesticated',
+};
+
+export const CONSERVATION_COPY: Record<ConservationStatus, { label: MessageKey; explanation: MessageKey }> = {
+  [ConservationStatus.EXTINCT]: { label: 'conservation.ex', explanation: 'conservation.ex.explanation' },
+  [ConservationStatus.EXTINCT_IN_THE_WILD]: { label: 'conservation.ew', explanation: 'conservation.ew.explanation' },
+  [ConservationStatus.CRITICALLY_ENDANGERED]: { label: 'conservation.cr', explanation: 'conservation.cr.explanation' },
+  [ConservationStatus.ENDANGERED]: { label: 'conservation.en', explanation: 'conservation.en.explanation' },
+  [ConservationStatus.VULNERABLE]: { label: 'conservation.vu', explanation: 'conservation.vu.explanation' },
+  [ConservationStatus.NEAR_THREATENED]: { label: 'conservation.nt', explanation: 'conservation.nt.explanation' },
+  [ConservationStatus.LEAST_CONCERN]: { label: 'conservation.lc', explanation: 'conservation.lc.explanation' },
+  [ConservationStatus.DATA_DEFICIENT]: { label: 'conservation.dd', explanation: 'conservation.dd.explanation' },
+  [ConservationStatus.NOT_EVALUATED]: { label: 'conservation.ne', explanation: 'conservation.ne.explanation' },
+  [ConservationStatus.DOMESTICATED]: { label: 'conservation.domesticated', explanation: 'conservation.domesticated.explanation' },
+};
+
+// Checked in order, so longer names win over the names they contain
+// ("extinct in the wild" before "extinct", "critically endangered" before "endangered").
+const NAME_PATTERNS: [RegExp, ConservationStatus][] = [
+  [/domestic/, ConservationStatus.DOMESTICATED],
+  [/extinct in the wild/, ConservationStatus.EXTINCT_IN_THE_WILD],
+  [/extinct/, ConservationStatus.EXTINCT],
+  [/critically endangered/, ConservationStatus.CRITICALLY_ENDANGERED],
+  [/endangered/, ConservationStatus.ENDANGERED],
+  [/vulnerable/, ConservationStatus.VULNERABLE],
+  // Pre-2001 "Lower Risk" subcategories: conservation dependent was folded into Near Threatened
+  [/near threatened|lower risk ?\/? ?(nt|cd)|conservation dependent/, ConservationStatus.NEAR_THREATENED],
+  [/least concern|lower risk/, ConservationStatus.LEAST_CONCERN],
+  [/data deficient/, ConservationStatus.DATA_DEFICIENT],
+  [/not evaluated|not assessed/, ConservationStatus.NOT_EVALUATED],
+];
+
+const LEGACY_CODES: Record<string, ConservationStatus> = {
+  'LR/LC': ConservationStatus.LEAST_CONCERN,
+  'LR/NT': ConservationStatus.NEAR_THREATENED,
+  'LR/CD': ConservationStatus.NEAR_THREATENED,
+};
+
+const isConservationStatus = (value: string): value is ConservationStatus =>
+  (CONSERVATION_STATUSES as string[]).includes(value);
+
+/**
+ * Maps whatever the model or an old journal entry says onto the enum, e.g.
+ * "LC", "least concern (IUCN)" or "Not evaluated, domestic". Anything
+ * unrecognisable counts as not evaluated.
+ */
+export const parseConservationStatus = (value: unknown): ConservationStatus => {
+  if (typeof value !== 'string') return ConservationStatus.NOT_EVALUATED;
+  const trimmed = value.trim();
+  if (isConservationStatus(trimmed)) return trimmed;
+
+  // Drop qualifiers like "(IUCN)" or "IUCN status:" and try the bare code
+  const cleaned = trimmed
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/\b(iucn|red list|status|category)\b/gi, ' ')
+    .replace(/[:;,.]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const code = cleaned.toUpperCase().replace(/\s/g, '');
+  if (isConservationStatus(code)) return code;
+  if (code in LEGACY_CODES) return LEGACY_CODES[code];
+
+  const lower = trimmed.toLowerCase();
+  const match = NAME_PATTERNS.find(([pattern]) => pattern.test(lower));
+  if (match) return match[1];
+
+  // A code in parentheses, as in "Threatened (VU)"
+  const bracketed = trimmed.match(/\(([a-z]{2})\)/i)?.[1].toUpperCase();
+  return bracketed && isConservationStatus(bracketed) ? bracketed : ConservationStatus.NOT_EVALUATED;
+};
+
+/**
+ * Brings a sighting saved before statuses were an enum up to date.
+ */
+export const upgradeSightingStatus = (sighting: Sighting): Sighting => ({
+  ...sighting,
+  animal: { ...sighting.animal, conservationStatus: parseConservationStatus(sighting.animal.conservationStatus) },
+  candidates: sighting.candidates.map(candidate => ({
+    ...candidate,
+    conservationStatus: parseConservationStatus(candidate.conservationStatus),
+  })),
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DarwinCoreRecord, describeSkipped, validateRecord } from './darwinCore';
+import { Sighting } from '../types';
+
+const record = (patch: Partial<DarwinCoreRecord> = {}): DarwinCoreRecord => ({
+  occurrenceID: 'urn:uuid:1',
+  basisOfRecord: 'HumanObservation',
+  scientificName: 'Vulpes vulpes',
+  dateIdentified: '2024-05-17T06:42:10.000Z',
+  identificationVerificationStatus: 'unverified',
+  ...patch,
+});
+
+describe('validateRecord', () => {
+  it('accepts a record without capture date or place', () => {
+    expect(validateRecord(record())).toEqual([]);
+  });
+
+  it('rejects a malformed capture date', () => {
+    expect(validateRecord(record({ eventDate: 'last spring' }))).toEqual([
+      { field: 'eventDate', message: 'export.issue.invalidEventDate', params: { date: 'last spring' } },
+    ]);
+  });
+
+  it('rejects half a coordinate pair', () => {
+    expect(validateRecord(record({ decimalLatitude: 51.5 })).map(issue => issue.field)).toEqual(['decimalLongitude']);
+  });
+});
+
+describe('describeSkipped', () => {
+  it('lists the reasons in the requested language', () => {
+    const sighting = { animal: { commonName: 'Zorro' } } as Sighting;
+    const issues = validateRecord(record({ scientificName: 'red fox' }));
+    expect(describeSkipped({ exported: 0, skipped: [{ sighting, issues }] }, 'es'))
+      .toBe('Zorro: "red fox" no es un binomio latino');
+  });
+});
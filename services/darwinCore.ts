@@ -0,0 +1,234 @@
+import { Locale, Sighting } from "../types";
+import { MessageKey, MessageParams, translate } from "./i18n";
+import { createZip, ZipEntry } from "./zip";
+
+// Darwin Core occurrence export (https://dwc.tdwg.org/terms/). Column names
+// are the standard terms, so GBIF and iNaturalist import tools map them directly.
+
+export type BasisOfRecord = 'HumanObservation' | 'MachineObservation';
+
+export interface DarwinCoreRecord {
+  occurrenceID: string;
+  basisOfRecord: BasisOfRecord;
+  scientificName: string;
+  kingdom?: string;
+  phylum?: string;
+  class?: string;
+  order?: string;
+  family?: string;
+  genus?: string;
+  vernacularName?: string;
+  eventDate?: string;
+  decimalLatitude?: number;
+  decimalLongitude?: number;
+  geodeticDatum?: string;
+  habitat?: string;
+  dateIdentified: string;
+  identificationRemarks?: string;
+  identificationVerificationStatus: string;
+  associatedMedia?: string;
+}
+
+export interface ValidationIssue {
+  field: keyof DarwinCoreRecord;
+  message: MessageKey;
+  params?: MessageParams;
+}
+
+export interface ExportSummary {
+  exported: number;
+  /** Sightings left out of the archive, with the reasons why. */
+  skipped: { sighting: Sighting; issues: ValidationIssue[] }[];
+}
+
+const DWC_TERMS: (keyof DarwinCoreRecord)[] = [
+  'occurrenceID',
+  'basisOfRecord',
+  'scientificName',
+  'kingdom',
+  'phylum',
+  'class',
+  'order',
+  'family',
+  'genus',
+  'vernacularName',
+  'eventDate',
+  'decimalLatitude',
+  'decimalLongitude',
+  'geodeticDatum',
+  'habitat',
+  'dateIdentified',
+  'identificationRemarks',
+  'identificationVerificationStatus',
+  'associatedMedia',
+];
+
+// Genus, optionally followed by lower-case epithets ("Vulpes vulpes", "Canis lupus familiaris")
+const SCIENTIFIC_NAME_PATTERN = /^[A-Z][a-z]+(?: [a-z-]+){0,2}$/;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+};
+
+const parseDataUrl = (dataUrl: string): { mimeType: string; bytes: Uint8Array } => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) throw new Error("Sighting image is not a base64 data URL");
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { mimeType: match[1], bytes };
+};
+
+const imagePath = (sighting: Sighting) => {
+  const mimeType = sighting.imageDataUrl.match(/^data:([^;,]+)/)?.[1] ?? '';
+  return `images/${sighting.id}.${IMAGE_EXTENSIONS[mimeType] ?? 'jpg'}`;
+};
+
+/**
+ * Maps a journal sighting onto Darwin Core terms. The photo was taken by a
+ * person, so it is a HumanObservation; the automated identification is
+ * flagged as unverified.
+ */
+export const toDarwinCoreRecord = (sighting: Sighting): DarwinCoreRecord => {
+  const { animal, metadata } = sighting;
+  const confidence = sighting.candidates.find(c => c.scientificName === animal.scientificName)?.confidence;
+
+  return {
+    occurrenceID: `urn:uuid:${sighting.id}`,
+    basisOfRecord: 'HumanObservation',
+    scientificName: animal.scientificName.trim(),
+    kingdom: animal.taxonomy?.kingdom,
+    phylum: animal.taxonomy?.phylum,
+    class: animal.taxonomy?.class,
+    order: animal.taxonomy?.order,
+    family: animal.taxonomy?.family,
+    genus: animal.taxonomy?.genus,
+    vernacularName: animal.commonName.trim() || undefined,
+    eventDate: metadata?.capturedAt,
+    decimalLatitude: metadata?.location?.latitude,
+    decimalLongitude: metadata?.location?.longitude,
+    geodeticDatum: metadata?.location ? 'WGS84' : undefined,
+    habitat: animal.habitat.trim() || undefined,
+    dateIdentified: new Date(sighting.createdAt).toISOString(),
+    identificationRemarks: confidence !== undefined
+      ? `Automated identification from photo (confidence ${Math.round(confidence * 100)}%)`
+      : 'Automated identification from photo',
+    identificationVerificationStatus: 'unverified',
+    associatedMedia: imagePath(sighting),
+  };
+};
+
+/**
+ * Checks the terms biodiversity databases refuse records without, and the
+ * shape of the optional ones that are present. An unknown capture date or
+ * place just leaves its columns empty. An empty list means the record can be submitted.
+ */
+export const validateRecord = (record: DarwinCoreRecord): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  if (!record.occurrenceID) {
+    issues.push({ field: 'occurrenceID', message: 'export.issue.missingOccurrenceId' });
+  }
+  if (!record.scientificName) {
+    issues.push({ field: 'scientificName', message: 'export.issue.missingScientificName' });
+  } else if (!SCIENTIFIC_NAME_PATTERN.test(record.scientificName)) {
+    issues.push({ field: 'scientificName', message: 'export.issue.invalidScientificName', params: { name: record.scientificName } });
+  }
+  if (record.eventDate && Number.isNaN(Date.parse(record.eventDate))) {
+    issues.push({ field: 'eventDate', message: 'export.issue.invalidEventDate', params: { date: record.eventDate } });
+  }
+
+  const hasLatitude = record.decimalLatitude !== undefined;
+  const hasLongitude = record.decimalLongitude !== undefined;
+  if (hasLatitude !== hasLongitude) {
+    issues.push({ field: hasLatitude ? 'decimalLongitude' : 'decimalLatitude', message: 'export.issue.incompleteCoordinates' });
+  }
+  if (hasLatitude && Math.abs(record.decimalLatitude!) > 90) {
+    issues.push({ field: 'decimalLatitude', message: 'export.issue.latitudeRange' });
+  }
+  if (hasLongitude && Math.abs(record.decimalLongitude!) > 180) {
+    issues.push({ field: 'decimalLongitude', message: 'export.issue.longitudeRange' });
+  }
+
+  return issues;
+};
+
+const escapeCsv = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes records as RFC 4180 CSV with a Darwin Core header row.
+ */
+export const toDarwinCoreCsv = (records: DarwinCoreRecord[]): string =>
+  [DWC_TERMS, ...records.map(record => DWC_TERMS.map(term => record[term]))]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\r\n') + '\r\n';
+
+export const toDarwinCoreJson = (records: DarwinCoreRecord[]): string =>
+  JSON.stringify(records, null, 2);
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Validates the sightings and downloads a zip with occurrences.csv,
+ * occurrences.json and the photos of every record that passed.
+ * Nothing is downloaded when no sighting is valid.
+ */
+export const exportSightings = (sightings: Sighting[]): ExportSummary => {
+  const summary: ExportSummary = { exported: 0, skipped: [] };
+  const records: DarwinCoreRecord[] = [];
+  const images: ZipEntry[] = [];
+
+  for (const sighting of sightings) {
+    const record = toDarwinCoreRecord(sighting);
+    const issues = validateRecord(record);
+    if (issues.length > 0) {
+      summary.skipped.push({ sighting, issues });
+      continue;
+    }
+    try {
+      images.push({ name: record.associatedMedia!, data: parseDataUrl(sighting.imageDataUrl).bytes });
+    } catch (error) {
+      console.error("Error reading sighting image:", error);
+      record.associatedMedia = undefined;
+    }
+    records.push(record);
+  }
+
+  summary.exported = records.length;
+  if (records.length === 0) return summary;
+
+  const archive = createZip([
+    { name: 'occurrences.csv', data: toDarwinCoreCsv(records) },
+    { name: 'occurrences.json', data: toDarwinCoreJson(records) },
+    ...images,
+  ]);
+  downloadBlob(archive, `sightings-${new Date().toISOString().slice(0, 10)}.zip`);
+  return summary;
+};
+
+/**
+ * One line per skipped sighting, in `locale`, for showing to the user.
+ */
+export const describeSkipped = (summary: ExportSummary, locale: Locale): string =>
+  summary.skipped
+    .map(({ sighting, issues }) =>
+      `${sighting.animal.commonName}: ${issues.map(issue => translate(locale, issue.message, issue.params)).join('; ')}`)
+    .join('\n');
@@ -0,0 +1,66 @@
+// Shared IndexedDB connection. Each store is created in `upgrade`; bump
+// DB_VERSION whenever a new store or index is added.
+
+const DB_NAME = 'eye-animal';
+const DB_VERSION = 2;
+
+export const SIGHTINGS_STORE = 'sightings';
+export const RESPONSE_CACHE_STORE = 'responseCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(SIGHTINGS_STORE)) {
+    const store = db.createObjectStore(SIGHTINGS_STORE, { keyPath: 'id' });
+    store.createIndex('createdAt', 'createdAt');
+  }
+  if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+    const store = db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+    store.createIndex('lastUsedAt', 'lastUsedAt');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `action` against one object store and resolves once the transaction commits.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const outcome = action(tx.objectStore(storeName));
+  const result = outcome instanceof IDBRequest ? await promisifyRequest(outcome) : await outcome;
+  await done;
+  return result;
+};
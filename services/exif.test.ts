@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { readExif } from './exif';
+
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [...u16(value >>> 16), ...u16(value & 0xffff)];
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// Big-endian TIFF with Orientation = 6 and DateTime in IFD0
+const tiff = (): number[] => {
+  const date = [...ascii('2024:05:17 06:42:10'), 0];
+  const dateOffset = 8 + 2 + 2 * 12 + 4;
+  return [
+    ...ascii('MM'), ...u16(42), ...u32(8),
+    ...u16(2),
+    ...u16(0x0112), ...u16(3), ...u32(1), ...u16(6), ...u16(0),
+    ...u16(0x0132), ...u16(2), ...u32(date.length), ...u32(dateOffset),
+    ...u32(0),
+    ...date,
+  ];
+};
+
+const jpeg = (): ArrayBuffer => {
+  const payload = [...ascii('Exif'), 0, 0, ...tiff()];
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, ...u16(payload.length + 2), ...payload, 0xff, 0xda, 0, 2]).buffer;
+};
+
+const box = (type: string, payload: number[]) => [...u32(payload.length + 8), ...ascii(type), ...payload];
+const fullBox = (type: string, version: number, payload: number[]) => box(type, [version, 0, 0, 0, ...payload]);
+
+// ftyp, then meta (iinf + iloc) pointing at an Exif item stored in mdat
+const heic = (): ArrayBuffer => {
+  const item = [...u32(6), ...ascii('Exif'), 0, 0, ...tiff()];
+  const ftyp = box('ftyp', [...ascii('heic'), ...u32(0), ...ascii('mif1')]);
+  const iinf = fullBox('iinf', 0, [
+    ...u16(2),
+    ...fullBox('infe', 2, [...u16(1), ...u16(0), ...ascii('hvc1'), 0]),
+    ...fullBox('infe', 2, [...u16(2), ...u16(0), ...ascii('Exif'), 0]),
+  ]);
+  const ilocFor = (itemOffset: number) => fullBox('iloc', 0, [
+    0x44, 0x00, // 4-byte offsets and lengths, no base offset
+    ...u16(2),
+    ...u16(1), ...u16(0), ...u16(1), ...u32(0), ...u32(0),
+    ...u16(2), ...u16(0), ...u16(1), ...u32(itemOffset), ...u32(item.length),
+  ]);
+  const metaFor = (itemOffset: number) => fullBox('meta', 0, [...iinf, ...ilocFor(itemOffset)]);
+  // The item sits right after the mdat header, which follows ftyp and meta
+  const itemOffset = ftyp.length + metaFor(0).length + 8;
+  return new Uint8Array([...ftyp, ...metaFor(itemOffset), ...box('mdat', item)]).buffer;
+};
+
+describe('readExif', () => {
+  it('reads orientation and capture time from a JPEG', () => {
+    expect(readExif(jpeg())).toEqual({ orientation: 6, capturedAt: '2024-05-17T06:42:10' });
+  });
+
+  it('reads capture time from a HEIC Exif item', () => {
+    const exif = readExif(heic());
+    expect(exif.capturedAt).toBe('2024-05-17T06:42:10');
+    // HEIF rotation comes from its own boxes and is applied by the decoder
+    expect(exif.orientation).toBe(1);
+  });
+
+  it('returns defaults for other formats and truncated files', () => {
+    expect(readExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toEqual({ orientation: 1 });
+    expect(readExif(heic().slice(0, 40))).toEqual({ orientation: 1 });
+  });
+});
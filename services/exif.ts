@@ -0,0 +1,288 @@
+// Minimal EXIF reader for JPEG and HEIC/HEIF. Only pulls out the handful of
+// tags the app uses, so we don't ship a full metadata library to the browser.
+
+import { GeoLocation } from "../types";
+
+export interface ExifData {
+  /** EXIF orientation 1–8; 1 means the pixels are already upright. */
+  orientation: number;
+  /** Capture time as an ISO 8601 string, without a zone unless the camera recorded one. */
+  capturedAt?: string;
+  location?: GeoLocation;
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Byte size of one value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Absolute offset of the entry's value bytes. */
+  dataOffset: number;
+}
+
+interface Tiff {
+  view: DataView;
+  start: number;
+  little: boolean;
+}
+
+const isJpeg = (view: DataView) => view.byteLength > 4 && view.getUint16(0) === 0xffd8;
+
+// HEIC/HEIF files are ISO BMFF: they open with an "ftyp" box
+const isHeif = (view: DataView) => view.byteLength > 12 && view.getUint32(4) === 0x66747970;
+
+/**
+ * Reads the entries of one TIFF IFD. Values of 4 bytes or less live inside
+ * the entry itself; larger ones are stored at an offset from the TIFF header.
+ */
+const readIfd = ({ view, start, little }: Tiff, ifdOffset: number): Map<number, IfdEntry> => {
+  const entries = new Map<number, IfdEntry>();
+  const ifdStart = start + ifdOffset;
+  if (ifdStart + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(ifdStart, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+    const dataOffset = size <= 4 ? entry + 8 : start + view.getUint32(entry + 8, little);
+    if (dataOffset + size > view.byteLength) continue;
+    entries.set(view.getUint16(entry, little), { type, count: valueCount, dataOffset });
+  }
+  return entries;
+};
+
+const readAscii = ({ view }: Tiff, entry: IfdEntry | undefined): string | undefined => {
+  if (!entry) return undefined;
+  let text = '';
+  for (let i = 0; i < entry.count; i++) {
+    const code = view.getUint8(entry.dataOffset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim() || undefined;
+};
+
+const readRationals = ({ view, little }: Tiff, entry: IfdEntry | undefined): number[] => {
+  if (!entry || entry.type !== 5) return [];
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const numerator = view.getUint32(entry.dataOffset + i * 8, little);
+    const denominator = view.getUint32(entry.dataOffset + i * 8 + 4, little);
+    values.push(denominator ? numerator / denominator : 0);
+  }
+  return values;
+};
+
+/**
+ * "2024:05:17 06:42:10" (+ optional "+02:00") -> "2024-05-17T06:42:10+02:00"
+ */
+const toIsoDate = (value: string | undefined, offset: string | undefined): string | undefined => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+};
+
+const toDegrees = ([degrees, minutes = 0, seconds = 0]: number[], ref: string | undefined, negativeRef: string) => {
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return ref?.toUpperCase() === negativeRef ? -value : value;
+};
+
+const readGps = (tiff: Tiff, gpsOffset: number): GeoLocation | undefined => {
+  const gps = readIfd(tiff, gpsOffset);
+  const latitude = readRationals(tiff, gps.get(TAG_GPS_LATITUDE));
+  const longitude = readRationals(tiff, gps.get(TAG_GPS_LONGITUDE));
+  if (latitude.length === 0 || longitude.length === 0) return undefined;
+
+  const location = {
+    latitude: toDegrees(latitude, readAscii(tiff, gps.get(TAG_GPS_LATITUDE_REF)), 'S'),
+    longitude: toDegrees(longitude, readAscii(tiff, gps.get(TAG_GPS_LONGITUDE_REF)), 'W'),
+  };
+  // Cameras without a fix sometimes write zeros
+  if (location.latitude === 0 && location.longitude === 0) return undefined;
+  if (Math.abs(location.latitude) > 90 || Math.abs(location.longitude) > 180) return undefined;
+  return location;
+};
+
+/**
+ * Reads the tags the app uses from a TIFF structure starting at `start`.
+ */
+const readTiff = (view: DataView, start: number, exif: ExifData, { withOrientation = true } = {}) => {
+  const tiff: Tiff = { view, start, little: view.getUint16(start) === 0x4949 };
+  const ifd0 = readIfd(tiff, view.getUint32(start + 4, tiff.little));
+
+  const orientation = ifd0.get(TAG_ORIENTATION);
+  if (orientation && withOrientation) {
+    const value = view.getUint16(orientation.dataOffset, tiff.little);
+    if (value >= 1 && value <= 8) exif.orientation = value;
+  }
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  const exifIfd = exifPointer ? readIfd(tiff, view.getUint32(exifPointer.dataOffset, tiff.little)) : new Map<number, IfdEntry>();
+  exif.capturedAt = toIsoDate(
+    readAscii(tiff, exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ?? readAscii(tiff, ifd0.get(TAG_DATE_TIME)),
+    readAscii(tiff, exifIfd.get(TAG_OFFSET_TIME_ORIGINAL))
+  );
+
+  const gpsPointer = ifd0.get(TAG_GPS_IFD);
+  if (gpsPointer) {
+    exif.location = readGps(tiff, view.getUint32(gpsPointer.dataOffset, tiff.little));
+  }
+};
+
+const readJpeg = (view: DataView, exif: ExifData) => {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) break;
+    const length = view.getUint16(offset + 2);
+
+    // APP1 holds "Exif\0\0" followed by the TIFF header
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      readTiff(view, offset + 10, exif);
+    } else if (marker === 0xffda) {
+      break; // Start of scan, no more headers
+    }
+    offset += 2 + length;
+  }
+};
+
+interface Box {
+  type: string;
+  /** Offset of the box payload, after its header. */
+  start: number;
+  end: number;
+}
+
+const fourCc = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readUint = (view: DataView, offset: number, size: number): number => {
+  if (size === 2) return view.getUint16(offset);
+  if (size === 4) return view.getUint32(offset);
+  if (size === 8) return Number(view.getBigUint64(offset));
+  return 0;
+};
+
+/**
+ * Lists the ISO BMFF boxes between `start` and `end`.
+ */
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type: fourCc(view, offset + 4), start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+/**
+ * Finds the item id of the "Exif" entry in an "iinf" box.
+ */
+const findExifItem = (view: DataView, iinf: Box): number | undefined => {
+  const version = view.getUint8(iinf.start);
+  const entriesStart = iinf.start + 4 + (version === 0 ? 2 : 4);
+  for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+    const infeVersion = view.getUint8(infe.start);
+    if (infe.type !== 'infe' || infeVersion < 2) continue;
+    const idSize = infeVersion === 2 ? 2 : 4;
+    // [version/flags][item_ID][item_protection_index][item_type]
+    if (fourCc(view, infe.start + 4 + idSize + 2) === 'Exif') return readUint(view, infe.start + 4, idSize);
+  }
+  return undefined;
+};
+
+/**
+ * Finds where an item's data starts, from the "iloc" box.
+ */
+const findItemOffset = (view: DataView, iloc: Box, itemId: number): number | undefined => {
+  const version = view.getUint8(iloc.start);
+  const sizes = view.getUint16(iloc.start + 4);
+  const offsetSize = sizes >> 12;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = version >= 1 ? sizes & 0xf : 0;
+  const idSize = version < 2 ? 2 : 4;
+
+  let offset = iloc.start + 6;
+  const itemCount = readUint(view, offset, idSize);
+  offset += idSize;
+  for (let i = 0; i < itemCount; i++) {
+    const id = readUint(view, offset, idSize);
+    offset += idSize;
+    // Only items stored at a file offset (construction method 0) are supported
+    const constructionMethod = version >= 1 ? view.getUint16(offset) & 0xf : 0;
+    if (version >= 1) offset += 2;
+    offset += 2; // data_reference_index
+    const baseOffset = readUint(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+    const firstExtentOffset = readUint(view, offset + indexSize, offsetSize);
+    offset += extentCount * (indexSize + offsetSize + lengthSize);
+    if (id === itemId) return constructionMethod === 0 ? baseOffset + firstExtentOffset : undefined;
+  }
+  return undefined;
+};
+
+const readHeif = (view: DataView, exif: ExifData) => {
+  const meta = readBoxes(view, 0, view.byteLength).find(box => box.type === 'meta');
+  if (!meta) return;
+  // "meta" is a full box: its children follow the version and flags
+  const children = readBoxes(view, meta.start + 4, meta.end);
+  const iinf = children.find(box => box.type === 'iinf');
+  const iloc = children.find(box => box.type === 'iloc');
+  const itemId = iinf && findExifItem(view, iinf);
+  if (!iloc || itemId === undefined) return;
+
+  const itemOffset = findItemOffset(view, iloc, itemId);
+  if (itemOffset === undefined || itemOffset + 4 > view.byteLength) return;
+  // The item opens with the offset of the TIFF header, past an optional "Exif\0\0"
+  const start = itemOffset + 4 + view.getUint32(itemOffset);
+  // HEIF stores rotation in its own "irot"/"imir" boxes, which decoders always apply
+  if (start + 8 <= view.byteLength) readTiff(view, start, exif, { withOrientation: false });
+};
+
+/**
+ * Parses EXIF metadata from JPEG or HEIC/HEIF bytes. Other formats and
+ * malformed metadata yield defaults rather than throwing.
+ */
+export const readExif = (buffer: ArrayBuffer): ExifData => {
+  const view = new DataView(buffer);
+  const exif: ExifData = { orientation: 1 };
+
+  try {
+    if (isJpeg(view)) readJpeg(view, exif);
+    else if (isHeif(view)) readHeif(view, exif);
+  } catch (error) {
+    console.warn("Could not read EXIF metadata:", error);
+  }
+
+  return exif;
+};
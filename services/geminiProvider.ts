@@ -0,0 +1,597 @@
+import { GoogleGenAI, Type, Schema, LiveServerMessage, Modality, Content, Part, GenerateContentResponse } from "@google/genai";
+import { ActivityPattern, AnimalComparison, AnimalDetails, AnimalDetection, ChatImage, ChatMessage, ConservationStatus, GeneratedImage, IdentificationOutcome, IdentificationResult, ImageStyle, Locale, PhotoEditPreset, PhotoEditRequest, PhotoMetadata, Quiz, QuizQuestionType, RangeOverlap } from "../types";
+import { DEFAULT_ASSISTANT_SETTINGS, describeAssistant } from "./assistantSettings";
+import { DEFAULT_LOCALE, getLocaleName } from "./i18n";
+import { CONSERVATION_STATUSES, IUCN_NAMES } from "./conservationStatus";
+import { describeViolations, InvalidModelResponseError, parseModelJson, SchemaViolation, validateAgainstSchema } from "./responseValidation";
+import { AnalysisOptions, AnimalAIProvider, AnimalChatSession, ChatSessionOptions, ComparisonOptions, ChatTurnOptions, DURATION_UNITS, LENGTH_UNITS, LiveSessionOptions, LiveVoiceSession, checkIdentification, checkQuiz, normalizeDetections, normalizeIdentification, MASS_UNITS, PhotoEditOptions, QuizOptions, SimilarImageOptions, TAXONOMIC_RANKS } from "./aiProvider";
+
+let client: GoogleGenAI | null = null;
+
+// Created lazily so the mock provider never needs an API key.
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const MAX_CANDIDATES = 3;
+
+const evaluateJson = <T>(text: string | undefined, schema: Schema, check: (value: T) => SchemaViolation[]) => {
+  if (!text) return { violations: [{ path: '', message: 'is empty' }] };
+  const parsed = parseModelJson(text);
+  if (parsed.violations.length > 0) return parsed;
+  const violations = validateAgainstSchema(parsed.value, schema);
+  return { value: parsed.value as T, violations: violations.length > 0 ? violations : check(parsed.value as T) };
+};
+
+/**
+ * Runs a structured-output request and checks the answer against `schema`
+ * (plus `check` for rules the schema can't express). A malformed answer is
+ * sent back once with the problems listed; if the repaired answer is still
+ * unusable, InvalidModelResponseError is thrown.
+ */
+const generateJson = async <T>(
+  model: string,
+  parts: Part[],
+  schema: Schema,
+  { check = () => [], signal }: { check?: (value: T) => SchemaViolation[]; signal?: AbortSignal } = {},
+): Promise<T> => {
+  const config = { responseMimeType: "application/json", responseSchema: schema, abortSignal: signal };
+  const request: Content[] = [{ role: 'user', parts }];
+
+  const response = await getClient().models.generateContent({ model, contents: request, config });
+  // Nothing to repair when the model refused or was blocked
+  if (!response.text) throw new Error(`No response from AI (${response.candidates?.[0]?.finishReason ?? 'unknown reason'})`);
+
+  const first = evaluateJson(response.text, schema, check);
+  if (first.violations.length === 0) return first.value as T;
+
+  console.warn("Repairing AI response:", describeViolations(first.violations));
+  const repaired = await getClient().models.generateContent({
+    model,
+    contents: [
+      ...request,
+      { role: 'model', parts: [{ text: response.text }] },
+      {
+        role: 'user',
+        parts: [{ text: `Your previous answer does not match the required JSON schema: ${describeViolations(first.violations)}. Reply again with the complete, corrected JSON only.` }],
+      },
+    ],
+    config,
+  });
+
+  const second = evaluateJson(repaired.text, schema, check);
+  if (second.violations.length === 0) return second.value as T;
+  throw new InvalidModelResponseError(second.violations);
+};
+
+// Length limits leave room for wordier languages; answers that break them are sent back for repair
+const textSchema = (description: string, maxLength: number): Schema => ({
+  type: Type.STRING,
+  description,
+  minLength: "1",
+  maxLength: String(maxLength),
+});
+
+const measurementSchema = (description: string, units: string[]): Schema => ({
+  type: Type.OBJECT,
+  description,
+  properties: {
+    min: { type: Type.NUMBER },
+    max: { type: Type.NUMBER },
+    unit: { type: Type.STRING, format: "enum", enum: units },
+  },
+  required: ["min", "max", "unit"],
+});
+
+const TAXONOMY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  description: "Linnaean classification with Latin names, never translated. species is the full binomial",
+  properties: Object.fromEntries(TAXONOMIC_RANKS.map(rank => [rank, textSchema(`${rank} name`, 80)])),
+  required: TAXONOMIC_RANKS,
+};
+
+const CANDIDATE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    commonName: textSchema("Common name of the animal", 100),
+    scientificName: textSchema("Scientific name of the animal as a Latin binomial, never translated", 120),
+    description: textSchema("A well-optimized, engaging description of the animal (approx 50 words)", 800),
+    habitat: textSchema("Natural habitat", 300),
+    diet: textSchema("Dietary habits", 300),
+    funFact: textSchema("One interesting, unique fact", 400),
+    conservationStatus: {
+      type: Type.STRING,
+      format: "enum",
+      enum: Object.values(ConservationStatus),
+      description: `IUCN Red List category code (${CONSERVATION_STATUSES.filter(s => s !== ConservationStatus.DOMESTICATED).map(s => `${s} = ${IUCN_NAMES[s]}`).join(', ')}). Use DOMESTICATED for domestic animals such as dogs, cats or cattle`,
+    },
+    confidence: { type: Type.NUMBER, description: "Confidence that this is the animal in the photo, from 0 to 1" },
+    distinguishingFeatures: {
+      type: Type.ARRAY,
+      items: textSchema("One visual cue", 150),
+      description: "Short visual cues in the photo that support this candidate over the others",
+    },
+    taxonomy: TAXONOMY_SCHEMA,
+    size: measurementSchema("Typical adult body length (shell length for turtles), in the most natural unit", LENGTH_UNITS),
+    weight: measurementSchema("Typical adult weight, in the most natural unit", MASS_UNITS),
+    lifespan: measurementSchema("Typical lifespan in the wild, in the most natural unit", DURATION_UNITS),
+    activityPattern: {
+      type: Type.STRING,
+      format: "enum",
+      enum: Object.values(ActivityPattern),
+      description: "When the animal is mostly active: by day, by night, at dawn and dusk, or around the clock",
+    },
+    nativeRange: {
+      type: Type.ARRAY,
+      items: textSchema("One region", 100),
+      description: "Regions where the species occurs naturally, e.g. continents, countries or oceans",
+    },
+  },
+  required: ["commonName", "scientificName", "description", "habitat", "diet", "funFact", "conservationStatus", "confidence", "distinguishingFeatures", "taxonomy", "size", "weight", "lifespan", "activityPattern", "nativeRange"],
+};
+
+/**
+ * Turns capture location and time into a prompt hint that narrows the species range.
+ */
+const regionalHint = (metadata?: PhotoMetadata): string => {
+  if (!metadata?.location) return '';
+  const { latitude, longitude } = metadata.location;
+  const captured = metadata.capturedAt ? new Date(metadata.capturedAt) : null;
+  const month = captured && !isNaN(captured.getTime())
+    ? captured.toLocaleString('en-US', { month: 'long' })
+    : null;
+  return ` The photo was taken at latitude ${latitude.toFixed(4)}, longitude ${longitude.toFixed(4)}${month ? ` in ${month}` : ''}.`
+    + ` Prefer species that are native or known to be established there, and rule out species that do not occur in that region unless the photo is clearly of a captive or domestic animal.`;
+};
+
+/**
+ * Asks for the free-text fields in the user's language. Scientific names and
+ * the taxonomy read the same in every language.
+ */
+const languageInstruction = (locale: Locale = DEFAULT_LOCALE): string =>
+  ` Write commonName, description, habitat, diet, funFact, distinguishingFeatures, nativeRange and issue in ${getLocaleName(locale)}.`
+  + ` Keep scientificName and taxonomy in Latin.`;
+
+/**
+ * Identifies an animal from a base64 image string, returning ranked candidates.
+ */
+const identifyAnimal = async (base64Image: string, mimeType: string, { metadata, locale, signal }: AnalysisOptions = {}): Promise<IdentificationResult> => {
+  const modelId = "gemini-2.5-flash"; // Efficient for multimodal tasks
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      outcome: {
+        type: Type.STRING,
+        format: "enum",
+        enum: Object.values(IdentificationOutcome),
+        description: "ANIMAL_FOUND when exactly one animal is clearly visible; NO_ANIMAL when there is no animal; POOR_IMAGE_QUALITY when the photo is too blurry, dark or small to judge; MULTIPLE_ANIMALS when several different animals compete for attention",
+      },
+      candidates: {
+        type: Type.ARRAY,
+        items: CANDIDATE_SCHEMA,
+        description: `Only for ANIMAL_FOUND: between 1 and ${MAX_CANDIDATES} candidate identifications, ranked from most to least likely. Empty otherwise`,
+      },
+      issue: { type: Type.STRING, description: "For any other outcome, one friendly sentence explaining what is wrong with the photo", maxLength: "300" },
+    },
+    required: ["outcome", "candidates"],
+  };
+
+  try {
+    const result = await generateJson<IdentificationResult>(modelId, [
+      {
+        inlineData: {
+          mimeType: mimeType,
+          data: base64Image,
+        },
+      },
+      {
+        text: `Identify the animal in this photo and provide detailed information based on the schema. If the species is uncertain, include up to ${MAX_CANDIDATES} plausible candidates ranked by confidence, and explain which visual cues set each one apart. Never invent an animal: if there is no animal, or the photo is unusable, report that outcome instead.${regionalHint(metadata)}${languageInstruction(locale)}`,
+      },
+    ], schema, { check: checkIdentification, signal });
+
+    return normalizeIdentification(result);
+  } catch (error) {
+    console.error("Error identifying animal:", error);
+    throw error;
+  }
+};
+
+/**
+ * Finds every animal in the photo, each with a bounding box and ranked candidates.
+ */
+const detectAnimals = async (base64Image: string, mimeType: string, { metadata, locale, signal }: AnalysisOptions = {}): Promise<AnimalDetection[]> => {
+  const modelId = "gemini-2.5-flash";
+
+  const schema: Schema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        box_2d: {
+          type: Type.ARRAY,
+          items: { type: Type.INTEGER, minimum: 0, maximum: 1000 },
+          minItems: "4",
+          maxItems: "4",
+          description: "Bounding box as [ymin, xmin, ymax, xmax] normalized to 0-1000",
+        },
+        candidates: {
+          type: Type.ARRAY,
+          items: CANDIDATE_SCHEMA,
+          minItems: "1",
+          description: `Between 1 and ${MAX_CANDIDATES} candidate identifications for this animal, ranked from most to least likely`,
+        },
+      },
+      required: ["box_2d", "candidates"],
+    },
+  };
+
+  try {
+    const raw = await generateJson<{ box_2d: number[]; candidates: AnimalDetection['candidates'] }[]>(modelId, [
+      {
+        inlineData: {
+          mimeType: mimeType,
+          data: base64Image,
+        },
+      },
+      {
+        text: `Detect every animal visible in this photo. For each one, return its bounding box and identify it based on the schema.${regionalHint(metadata)}${languageInstruction(locale)}`,
+      },
+    ], schema, { signal });
+
+    return normalizeDetections(raw
+      .map(({ box_2d: [yMin, xMin, yMax, xMax], candidates }) => ({
+        box: { xMin: xMin / 1000, yMin: yMin / 1000, xMax: xMax / 1000, yMax: yMax / 1000 },
+        candidates,
+      })));
+  } catch (error) {
+    console.error("Error detecting animals:", error);
+    throw error;
+  }
+};
+
+const comparisonPointsSchema = (description: string): Schema => ({
+  type: Type.ARRAY,
+  description,
+  minItems: "1",
+  maxItems: "6",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      aspect: textSchema("What is being compared, e.g. ear shape or hunting style", 60),
+      first: textSchema("How it is for the first animal", 200),
+      second: textSchema("How it is for the second animal", 200),
+    },
+    required: ["aspect", "first", "second"],
+  },
+});
+
+const COMPARISON_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: textSchema("One or two sentences on how to tell the two apart at a glance", 400),
+    distinguishingFeatures: comparisonPointsSchema("Visible features that tell them apart, most reliable first"),
+    sizeDifference: textSchema("How their sizes and builds differ", 300),
+    rangeOverlap: {
+      type: Type.STRING,
+      format: "enum",
+      enum: Object.values(RangeOverlap),
+      description: "NONE when their native ranges never meet, PARTIAL when they share some regions, EXTENSIVE when they mostly live in the same places",
+    },
+    rangeOverlapDetails: textSchema("Where their native ranges meet, or what keeps them apart", 300),
+    dietDifferences: comparisonPointsSchema("How their diets and feeding habits differ"),
+  },
+  required: ["summary", "distinguishingFeatures", "sizeDifference", "rangeOverlap", "rangeOverlapDetails", "dietDifferences"],
+};
+
+/**
+ * Contrasts two animals using what identification already found out about each.
+ */
+const compareAnimals = async (first: AnimalDetails, second: AnimalDetails, { locale = DEFAULT_LOCALE, signal }: ComparisonOptions = {}): Promise<AnimalComparison> => {
+  const modelId = "gemini-2.5-flash";
+
+  try {
+    return await generateJson<AnimalComparison>(modelId, [
+      {
+        text: `Compare two animals for a curious student: first the ${first.commonName} (${first.scientificName}), then the ${second.commonName} (${second.scientificName}).
+What is already known about the first: ${JSON.stringify(first)}
+What is already known about the second: ${JSON.stringify(second)}
+Build on these details and only contradict them when they are clearly wrong. In every comparison point, "first" describes the ${first.commonName} and "second" the ${second.commonName}. Write all text in ${getLocaleName(locale)}, keeping scientific names in Latin.`,
+      },
+    ], COMPARISON_SCHEMA, { signal });
+  } catch (error) {
+    console.error("Error comparing animals:", error);
+    throw error;
+  }
+};
+
+const QUIZ_LENGTH = 6;
+
+const QUIZ_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      minItems: "4",
+      maxItems: "8",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, format: "enum", enum: Object.values(QuizQuestionType) },
+          question: textSchema("The question, or for TRUE_FALSE a statement to judge", 300),
+          options: {
+            type: Type.ARRAY,
+            description: "Four answer choices for MULTIPLE_CHOICE; exactly the words for true and false, in that order, for TRUE_FALSE",
+            minItems: "2",
+            maxItems: "4",
+            items: textSchema("One answer choice", 150),
+          },
+          correctIndex: { type: Type.INTEGER, description: "Zero-based index of the right answer in options" },
+          explanation: textSchema("Why that answer is right, citing the animal's details", 400),
+        },
+        required: ["type", "question", "options", "correctIndex", "explanation"],
+      },
+    },
+  },
+  required: ["questions"],
+};
+
+/**
+ * Writes a quiz from what identification found out about the animal, so
+ * every answer can be checked against the results screen.
+ */
+const generateQuiz = async (animalData: AnimalDetails, { locale = DEFAULT_LOCALE, signal }: QuizOptions = {}): Promise<Quiz> => {
+  const modelId = "gemini-2.5-flash";
+
+  try {
+    return await generateJson<Quiz>(modelId, [
+      {
+        text: `Write a ${QUIZ_LENGTH}-question quiz about the ${animalData.commonName} (${animalData.scientificName}) for a curious student, mixing MULTIPLE_CHOICE and TRUE_FALSE questions.
+Everything known about it: ${JSON.stringify(animalData)}
+Base every question and answer on these details only, and quote the relevant detail in each explanation. Make wrong choices plausible, vary the position of the right one and avoid "all of the above". Write all text in ${getLocaleName(locale)}, keeping scientific names in Latin.`,
+      },
+    ], QUIZ_SCHEMA, { check: checkQuiz, signal });
+  } catch (error) {
+    console.error("Error generating quiz:", error);
+    throw error;
+  }
+};
+
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+
+// Common names arrive in the user's language; say so, and keep any lettering in it too
+const imageSubject = (animalName: string, locale: Locale) =>
+  locale === DEFAULT_LOCALE ? animalName : `${animalName} (its ${getLocaleName(locale)} name)`;
+
+const letteringInstruction = (locale: Locale) =>
+  ` Avoid text in the image; if any appears, write it in ${getLocaleName(locale)}.`;
+
+/**
+ * Pulls the first inline image out of an image model response.
+ */
+const extractImage = (response: GenerateContentResponse): string => {
+  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+  if (!part?.inlineData?.data) {
+    throw new Error(`No image in response (${response.candidates?.[0]?.finishReason ?? 'no candidates'})`);
+  }
+  return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+};
+
+const IMAGE_STYLE_PROMPTS: Record<ImageStyle, (subject: string) => string> = {
+  [ImageStyle.HABITAT]: subject => `A realistic, high-quality photograph of a ${subject} in its natural habitat, cinematic lighting.`,
+  [ImageStyle.PORTRAIT]: subject => `A close-up portrait of a ${subject}, detailed fur/skin texture, national geographic style.`,
+  [ImageStyle.SCIENTIFIC_ILLUSTRATION]: subject => `A scientific illustration of a ${subject} in the style of a natural history field guide plate: side profile, anatomically accurate, ink and watercolour on a plain off-white background.`,
+  [ImageStyle.JUVENILE]: subject => `A realistic photograph of a young ${subject} (whatever its juvenile form is called: cub, chick, calf, larva...), showing how it differs from the adult, in its natural habitat.`,
+  [ImageStyle.RANGE_DIORAMA]: subject => `A natural history museum diorama of a ${subject} in a miniature landscape of its native range, with the typical terrain and plants of that region, soft gallery lighting.`,
+};
+
+/**
+ * The prompt for one generated image of `animalName` in `style`.
+ */
+const similarImagePrompt = (animalName: string, style: ImageStyle, locale: Locale = DEFAULT_LOCALE): string =>
+  `${IMAGE_STYLE_PROMPTS[style](imageSubject(animalName, locale))}${letteringInstruction(locale)}`;
+
+/**
+ * Generates an image of the identified animal in the given style using GenAI.
+ */
+const generateSimilarImage = async (animalName: string, style: ImageStyle, { locale = DEFAULT_LOCALE, signal }: SimilarImageOptions = {}): Promise<GeneratedImage> => {
+  const prompt = similarImagePrompt(animalName, style, locale);
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        // responseMimeType is not supported for image gen models usually, they return inline data
+        abortSignal: signal,
+      }
+    });
+    return { url: extractImage(response), prompt };
+  } catch (error) {
+    console.error("Error generating similar image:", error);
+    throw error;
+  }
+};
+
+// Every preset keeps the animal itself as photographed; only CUSTOM leaves that to the user
+const PHOTO_EDIT_PROMPTS: Record<Exclude<PhotoEditPreset, PhotoEditPreset.CUSTOM>, (subject: string) => string> = {
+  [PhotoEditPreset.NATURAL_HABITAT]: subject => `Edit this photo so the ${subject} appears in its natural habitat. Keep the animal exactly as it is (same individual, pose, markings and lighting direction) and replace only the surroundings with a realistic scene.`,
+  [PhotoEditPreset.REMOVE_BACKGROUND]: subject => `Remove the background from this photo, leaving only the ${subject} on a plain pure white background. Keep its outline, texture and colours unchanged.`,
+  [PhotoEditPreset.JUVENILE_FORM]: subject => `Edit this photo to show the ${subject} as a juvenile of its species, in the same pose, setting and lighting, so the two can be compared side by side.`,
+  [PhotoEditPreset.SIZE_COMPARISON]: subject => `Edit this photo to add an adult human standing next to the ${subject} at true relative scale, so the animal's real size is easy to judge. Keep the animal unchanged.`,
+};
+
+const photoEditPrompt = ({ preset, instruction }: PhotoEditRequest, animalName: string, locale: Locale): string => {
+  const subject = imageSubject(animalName, locale);
+  if (preset !== PhotoEditPreset.CUSTOM) return `${PHOTO_EDIT_PROMPTS[preset](subject)}${letteringInstruction(locale)}`;
+  if (!instruction?.trim()) throw new Error("A custom photo edit needs an instruction");
+  return `Edit this photo of a ${subject} as follows: ${instruction.trim()}\nKeep the result photorealistic unless asked otherwise.${letteringInstruction(locale)}`;
+};
+
+/**
+ * Sends the user's photo to the image model with an edit instruction.
+ */
+const editPhoto = async (base64Image: string, mimeType: string, edit: PhotoEditRequest, { animalName, locale = DEFAULT_LOCALE, signal }: PhotoEditOptions): Promise<GeneratedImage> => {
+  const prompt = photoEditPrompt(edit, animalName, locale);
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { mimeType, data: base64Image } },
+          { text: prompt },
+        ],
+      },
+      config: { abortSignal: signal },
+    });
+    return { url: extractImage(response), prompt };
+  } catch (error) {
+    console.error("Error editing photo:", error);
+    throw error;
+  }
+};
+
+const toParts = (text: string, images: ChatImage[] = []): Part[] => [
+  ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+  ...(text.trim() ? [{ text }] : []),
+];
+
+const toHistory = (messages: ChatMessage[], photo?: ChatImage): Content[] => {
+  // The photo goes first as its own exchange, so it stays in context for the whole chat
+  const seed: Content[] = photo
+    ? [
+        { role: 'user', parts: toParts("This is the photo I took of the animal.", [photo]) },
+        { role: 'model', parts: [{ text: "Thanks, I can see your photo. Ask me anything about it." }] },
+      ]
+    : [];
+  // Gemini expects a conversation to open with a user turn, so the canned greeting is dropped.
+  const firstUser = messages.findIndex(msg => msg.role === 'user');
+  if (firstUser === -1) return seed;
+  return [
+    ...seed,
+    ...messages
+      .slice(firstUser)
+      .filter(msg => !msg.incomplete)
+      .map(msg => ({ role: msg.role, parts: toParts(msg.text, msg.images) }))
+      .filter(content => content.parts.length > 0),
+  ];
+};
+
+const describeForChat = (animal: AnimalDetails) => `${animal.commonName} (${animal.scientificName}).
+      - Habitat: ${animal.habitat}
+      - Diet: ${animal.diet}
+      - Description: ${animal.description}`;
+
+/**
+ * Creates a chat session for the specific animal, or for two animals being compared.
+ */
+const createChat = (animalData: AnimalDetails, { history = [], photo, settings, comparedWith }: ChatSessionOptions = {}): AnimalChatSession => {
+  const assistant = describeAssistant(settings);
+  const subject = comparedWith
+    ? `The user is comparing two animals. The first is ${describeForChat(animalData)}
+      The second is ${describeForChat(comparedWith)}
+
+      Answer the user's questions about either animal, and above all about how they differ and how to tell them apart.`
+    : `The user has just identified an animal: ${describeForChat(animalData)}
+
+      Answer the user's questions about this specific animal.`;
+  const chat = getClient().chats.create({
+    model: "gemini-2.5-flash",
+    history: toHistory(history, photo),
+    config: {
+      systemInstruction: `You are ${assistant.role}. ${subject}
+      The user may share their photo and extra photos such as close-ups or tracks; refer to what you can see in them when relevant.
+      ${assistant.guidance} Keep answers concise but informative.`,
+    },
+  });
+
+  return {
+    sendMessage: async (message, { images, signal }: ChatTurnOptions = {}) => {
+      const response = await chat.sendMessage({ message: toParts(message, images), config: { abortSignal: signal } });
+      return response.text || '';
+    },
+    sendMessageStream: async function* (message, { images, signal }: ChatTurnOptions = {}) {
+      const stream = await chat.sendMessageStream({ message: toParts(message, images), config: { abortSignal: signal } });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
+
+// How much of an interrupted voice conversation is replayed after reconnecting
+const LIVE_HISTORY_TURNS = 10;
+
+const describeHistory = (history: ChatMessage[]): string => {
+  const turns = history.slice(-LIVE_HISTORY_TURNS);
+  if (turns.length === 0) return '';
+  const lines = turns.map(turn => `${turn.role === 'user' ? 'User' : 'You'}: ${turn.text}`).join('\n');
+  return `\n\n      The connection dropped and has just been restored. The conversation so far:\n${lines}\n      Carry on naturally without greeting the user again.`;
+};
+
+/**
+ * Opens a Gemini Live audio session about the animal.
+ */
+const connectLive = async ({ animalData, callbacks, history = [], settings = DEFAULT_ASSISTANT_SETTINGS }: LiveSessionOptions): Promise<LiveVoiceSession> => {
+  const assistant = describeAssistant(settings);
+  const session = await getClient().live.connect({
+    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    config: {
+      responseModalities: [Modality.AUDIO],
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      // Native audio models pick the spoken language themselves and reject
+      // speechConfig.languageCode, so the language is set in the instruction
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voiceName } },
+      },
+      systemInstruction: `You are ${assistant.role}. The user is looking at a ${animalData.commonName} (${animalData.scientificName}).
+
+      Context about the animal:
+      - Description: ${animalData.description}
+      - Habitat: ${animalData.habitat}
+      - Diet: ${animalData.diet}
+      - Fun Fact: ${animalData.funFact}
+
+      Answer questions about this animal naturally. ${assistant.guidance} Keep responses relatively short and conversational suitable for voice chat.${describeHistory(history)}`,
+    },
+    callbacks: {
+      onopen: () => callbacks.onOpen(),
+      onmessage: (message: LiveServerMessage) => {
+        const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (base64Audio) callbacks.onAudio(base64Audio);
+        const heard = message.serverContent?.inputTranscription?.text;
+        if (heard) callbacks.onTranscription('user', heard);
+        const spoken = message.serverContent?.outputTranscription?.text;
+        if (spoken) callbacks.onTranscription('model', spoken);
+        if (message.serverContent?.interrupted) callbacks.onInterrupted();
+        if (message.serverContent?.turnComplete) callbacks.onTurnComplete();
+      },
+      onerror: (err) => callbacks.onError(err),
+      onclose: () => callbacks.onClose(),
+    },
+  });
+
+  return {
+    sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+    endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+    close: () => session.close(),
+  };
+};
+
+export const geminiProvider: AnimalAIProvider = {
+  name: 'gemini',
+  identifyAnimal,
+  detectAnimals,
+  generateSimilarImage,
+  similarImagePrompt,
+  editPhoto,
+  compareAnimals,
+  generateQuiz,
+  createChat,
+  connectLive,
+};
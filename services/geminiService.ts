@@ -1,120 +1,156 @@
-import { GoogleGenAI, Type, Schema, Chat } from "@google/genai";
-import { AnimalDetails } from "../types";
+import { AnimalComparison, AnimalDetails, AnimalDetection, GeneratedImage, IdentificationResult, ImageStyle, PhotoEditRequest, Quiz } from "../types";
+import { AnalysisOptions, AnimalAIProvider, AnimalChatSession, ChatSessionOptions, ComparisonOptions, ChatTurnOptions, LiveSessionOptions, LiveVoiceSession, PhotoEditOptions, QuizOptions, SimilarImageOptions } from "./aiProvider";
+import { RequestOptions, withRetry } from "./requestPolicy";
+import { CacheOptions, cached, hashBase64, sha256 } from "./responseCache";
+import { DEFAULT_LOCALE } from "./i18n";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const PROVIDERS: Record<string, AnimalAIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
 
-/**
- * Identifies an animal from a base64 image string.
- */
-export const identifyAnimal = async (base64Image: string, mimeType: string): Promise<AnimalDetails> => {
-  const modelId = "gemini-2.5-flash"; // Efficient for multimodal tasks
+// Selected once at startup via the AI_PROVIDER env var (defaults to Gemini).
+const provider: AnimalAIProvider = PROVIDERS[process.env.AI_PROVIDER || 'gemini'] ?? geminiProvider;
 
-  const schema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      commonName: { type: Type.STRING, description: "Common name of the animal" },
-      scientificName: { type: Type.STRING, description: "Scientific name of the animal" },
-      description: { type: Type.STRING, description: "A well-optimized, engaging description of the animal (approx 50 words)" },
-      habitat: { type: Type.STRING, description: "Natural habitat" },
-      diet: { type: Type.STRING, description: "Dietary habits" },
-      funFact: { type: Type.STRING, description: "One interesting, unique fact" },
-      conservationStatus: { type: Type.STRING, description: "IUCN conservation status (e.g., Least Concern, Endangered)" },
-    },
-    required: ["commonName", "scientificName", "description", "habitat", "diet", "funFact", "conservationStatus"],
-  };
+export const getActiveProvider = (): AnimalAIProvider => provider;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image,
-            },
-          },
-          {
-            text: "Identify this animal and provide detailed information based on the schema.",
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-      },
-    });
+// Every request below gets a per-attempt deadline and retries transient
+// failures; callers can override both through RequestOptions
+const ANALYSIS_TIMEOUT_MS = 60000;
+const IMAGE_TIMEOUT_MS = 90000;
+// For a streamed reply this only covers the wait for the first chunk
+const CHAT_TIMEOUT_MS = 30000;
 
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
-    
-    return JSON.parse(text) as AnimalDetails;
-  } catch (error) {
-    console.error("Error identifying animal:", error);
-    throw error;
-  }
-};
+// Answers depend on the backend, the language, the photo itself (not how it was
+// encoded) and its capture metadata, which goes into the prompt as a regional hint
+const analysisCacheKey = async (kind: string, base64Image: string, { locale = DEFAULT_LOCALE, metadata = {} }: AnalysisOptions) =>
+  `${kind}:${provider.name}:${locale}:${await hashBase64(base64Image)}:${await sha256(JSON.stringify(metadata))}`;
 
 /**
- * Generates similar images of the identified animal using GenAI.
+ * Identifies an animal from a base64 image string, returning ranked candidates.
+ * Capture location, when known, is used as a regional hint, and the text
+ * fields come back in `options.locale`. Photos seen before are answered from
+ * the cache unless `options.refresh` is set.
  */
-export const generateSimilarImages = async (animalName: string): Promise<string[]> => {
-  // We will generate 2 variants.
-  const modelId = "gemini-2.5-flash-image"; 
-  const imageUrls: string[] = [];
+export const identifyAnimal = async (base64Image: string, mimeType: string, options: AnalysisOptions & RequestOptions & CacheOptions = {}): Promise<IdentificationResult> =>
+  cached(
+    await analysisCacheKey('identify', base64Image, options),
+    () => withRetry(
+      signal => provider.identifyAnimal(base64Image, mimeType, { ...options, signal }),
+      { timeoutMs: ANALYSIS_TIMEOUT_MS, ...options },
+    ),
+    options,
+  );
 
-  try {
-    // Requesting 2 distinct images sequentially or parallel
-    const prompts = [
-      `A realistic, high-quality photograph of a ${animalName} in its natural habitat, cinematic lighting.`,
-      `A close-up portrait of a ${animalName}, detailed fur/skin texture, national geographic style.`
-    ];
+/**
+ * Finds every animal in a base64 image, each with a normalized bounding box.
+ */
+export const detectAnimals = async (base64Image: string, mimeType: string, options: AnalysisOptions & RequestOptions & CacheOptions = {}): Promise<AnimalDetection[]> =>
+  cached(
+    await analysisCacheKey('detect', base64Image, options),
+    () => withRetry(
+      signal => provider.detectAnimals(base64Image, mimeType, { ...options, signal }),
+      { timeoutMs: ANALYSIS_TIMEOUT_MS, ...options },
+    ),
+    options,
+  );
+
+export interface SimilarImageRequest extends SimilarImageOptions, RequestOptions, CacheOptions {
+  /** Tells several images in the same style apart; each variant is cached on its own. */
+  variant?: number;
+}
 
-    const promises = prompts.map(async (prompt) => {
-        const response = await ai.models.generateContent({
-            model: modelId,
-            contents: { parts: [{ text: prompt }] },
-            config: {
-                // responseMimeType is not supported for image gen models usually, they return inline data
-            }
-        });
-        
-        // Extract image from response
-        const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-        if (part && part.inlineData && part.inlineData.data) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
-        return null;
-    });
+/**
+ * Generates one image of the identified animal in a style preset. Images are
+ * cached per animal name, prompt and variant.
+ */
+export const generateSimilarImage = async (animalName: string, style: ImageStyle, options: SimilarImageRequest = {}): Promise<GeneratedImage> => {
+  const prompt = provider.similarImagePrompt(animalName, style, options.locale);
+  return cached(
+    `image:${provider.name}:${options.variant ?? 0}:${await sha256(`${animalName}\n${prompt}`)}`,
+    () => withRetry(
+      signal => provider.generateSimilarImage(animalName, style, { ...options, signal }),
+      { timeoutMs: IMAGE_TIMEOUT_MS, ...options },
+    ),
+    options,
+  );
+};
 
-    const results = await Promise.all(promises);
-    results.forEach(res => {
-        if (res) imageUrls.push(res);
-    });
+/**
+ * Contrasts two identified animals: distinguishing features, size, range
+ * overlap and diet. Cached per ordered pair of animals.
+ */
+export const compareAnimals = async (first: AnimalDetails, second: AnimalDetails, options: ComparisonOptions & RequestOptions & CacheOptions = {}): Promise<AnimalComparison> => {
+  const { locale = DEFAULT_LOCALE } = options;
+  return cached(
+    `compare:${provider.name}:${locale}:${await sha256(JSON.stringify([first, second]))}`,
+    () => withRetry(
+      signal => provider.compareAnimals(first, second, { ...options, signal }),
+      { timeoutMs: ANALYSIS_TIMEOUT_MS, ...options },
+    ),
+    options,
+  );
+};
 
-    return imageUrls;
+/**
+ * Writes a short multiple-choice and true/false quiz grounded in the
+ * identified animal's details. Cached per animal; `refresh` asks for a new one.
+ */
+export const generateQuiz = async (animalData: AnimalDetails, options: QuizOptions & RequestOptions & CacheOptions = {}): Promise<Quiz> => {
+  const { locale = DEFAULT_LOCALE } = options;
+  return cached(
+    `quiz:${provider.name}:${locale}:${await sha256(JSON.stringify(animalData))}`,
+    () => withRetry(
+      signal => provider.generateQuiz(animalData, { ...options, signal }),
+      { timeoutMs: ANALYSIS_TIMEOUT_MS, ...options },
+    ),
+    options,
+  );
+};
 
-  } catch (error) {
-    console.error("Error generating similar images:", error);
-    return []; // Return empty if fails, UI should handle this
-  }
+/**
+ * Reworks the user's own photo with the image model, e.g. placing the animal
+ * in its habitat. Edits are cached per photo, animal and instruction.
+ */
+export const editPhoto = async (base64Image: string, mimeType: string, edit: PhotoEditRequest, options: PhotoEditOptions & RequestOptions & CacheOptions): Promise<GeneratedImage> => {
+  const { animalName, locale = DEFAULT_LOCALE } = options;
+  const instruction = await sha256([animalName, edit.preset, edit.instruction?.trim() ?? ''].join('\n'));
+  return cached(
+    `edit:${provider.name}:${locale}:${await hashBase64(base64Image)}:${instruction}`,
+    () => withRetry(
+      signal => provider.editPhoto(base64Image, mimeType, edit, { ...options, signal }),
+      { timeoutMs: IMAGE_TIMEOUT_MS, ...options },
+    ),
+    options,
+  );
 };
 
 /**
- * Creates a chat session for the specific animal.
+ * Creates a chat session for the specific animal, optionally resuming earlier
+ * messages and seeded with the user's photo.
  */
-export const createAnimalChat = (animalData: AnimalDetails): Chat => {
-  return ai.chats.create({
-    model: "gemini-2.5-flash",
-    config: {
-      systemInstruction: `You are an expert zoologist. The user has just identified an animal: ${animalData.commonName} (${animalData.scientificName}). 
-      Context:
-      - Habitat: ${animalData.habitat}
-      - Diet: ${animalData.diet}
-      - Description: ${animalData.description}
-      
-      Answer the user's questions about this specific animal accurately and enthusiastically. Keep answers concise but informative.`,
+export const createAnimalChat = (animalData: AnimalDetails, options?: ChatSessionOptions): AnimalChatSession => {
+  const chat = provider.createChat(animalData, options);
+  return {
+    sendMessage: (message, turn: ChatTurnOptions & RequestOptions = {}) =>
+      withRetry(signal => chat.sendMessage(message, { ...turn, signal }), { timeoutMs: CHAT_TIMEOUT_MS, ...turn }),
+    sendMessageStream: async function* (message, turn: ChatTurnOptions & RequestOptions = {}) {
+      // Retrying is only safe until the first chunk has been shown
+      const { stream, first } = await withRetry(async signal => {
+        const stream = chat.sendMessageStream(message, { ...turn, signal });
+        return { stream, first: await stream.next() };
+      }, { timeoutMs: CHAT_TIMEOUT_MS, ...turn });
+      if (first.done) return;
+      yield first.value;
+      yield* stream;
     },
-  });
+  };
 };
+
+/**
+ * Opens a live voice session for the specific animal.
+ */
+export const connectLiveSession = (options: LiveSessionOptions): Promise<LiveVoiceSession> =>
+  provider.connectLive(options);
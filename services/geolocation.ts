@@ -0,0 +1,25 @@
+import { GeoLocation } from "../types";
+
+const LOCATION_TIMEOUT_MS = 5000;
+
+/**
+ * Best-effort device location for photos that carry no GPS metadata.
+ * Resolves to undefined when unsupported, denied or too slow.
+ */
+export const getCurrentLocation = (): Promise<GeoLocation | undefined> =>
+  new Promise(resolve => {
+    if (!navigator.geolocation) {
+      resolve(undefined);
+      return;
+    }
+    // The permission prompt doesn't count towards the API timeout, so cap the wait ourselves
+    setTimeout(() => resolve(undefined), LOCATION_TIMEOUT_MS);
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => resolve(undefined),
+      { enableHighAccuracy: false, timeout: LOCATION_TIMEOUT_MS, maximumAge: 60_000 }
+    );
+  });
+
+export const formatCoordinates = ({ latitude, longitude }: GeoLocation): string =>
+  `${Math.abs(latitude).toFixed(4)}°${latitude >= 0 ? 'N' : 'S'}, ${Math.abs(longitude).toFixed(4)}°${longitude >= 0 ? 'E' : 'W'}`;
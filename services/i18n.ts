@@ -0,0 +1,64 @@
+import { Locale } from "../types";
+import { en, MessageKey } from "../locales/en";
+import { es } from "../locales/es";
+import { pt } from "../locales/pt";
+
+const STORAGE_KEY = 'eye-animal:locale';
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+
+export interface LocaleOption {
+  code: Locale;
+  /** Native name, shown in the language switcher. */
+  label: string;
+  /** English name, used in prompts. */
+  englishName: string;
+}
+
+export const LOCALE_OPTIONS: LocaleOption[] = [
+  { code: 'en', label: 'English', englishName: 'English' },
+  { code: 'es', label: 'Español', englishName: 'Spanish' },
+  { code: 'pt', label: 'Português', englishName: 'Portuguese' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es, pt };
+
+const isLocale = (value: unknown): value is Locale =>
+  LOCALE_OPTIONS.some(option => option.code === value);
+
+/**
+ * The saved locale, otherwise the browser's language if we have a catalog for it.
+ */
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (error) {
+    console.warn("Could not read locale:", error);
+  }
+  const browser = navigator.language?.slice(0, 2).toLowerCase();
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.warn("Could not save locale:", error);
+  }
+};
+
+export const getLocaleName = (locale: Locale): string =>
+  LOCALE_OPTIONS.find(option => option.code === locale)?.englishName ?? 'English';
+
+/**
+ * Looks up a message and fills in `{placeholder}`s. Falls back to English,
+ * then to the key itself, so a gap in a catalog never renders blank.
+ */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const template = CATALOGS[locale]?.[key] ?? en[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
@@ -0,0 +1,246 @@
+import { ChatImage, ImageSizeStats, PhotoMetadata } from "../types";
+import { readExif } from "./exif";
+
+export type PreprocessFormat = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessOptions {
+  /** Longest edge of the output in pixels; smaller images are never upscaled. */
+  maxDimension: number;
+  format: PreprocessFormat;
+  /** Encoder quality between 0 and 1. */
+  quality: number;
+}
+
+export interface PreprocessedImage extends ImageSizeStats {
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  /** Read from EXIF before re-encoding strips it. */
+  metadata: PhotoMetadata;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 1600,
+  format: 'image/jpeg',
+  quality: 0.85,
+};
+
+const HEIC_TYPES = ['image/heic', 'image/heif'];
+
+// Formats we can forward untouched when re-encoding would not help.
+const PASSTHROUGH_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const isHeicFile = (file: Blob): boolean =>
+  HEIC_TYPES.includes(file.type) || (file instanceof File && /\.hei[cf]$/i.test(file.name));
+
+/**
+ * Browsers often leave `type` empty for HEIC, so the extension counts too.
+ */
+export const isSupportedImageFile = (file: Blob): boolean =>
+  file.type.startsWith('image/') || isHeicFile(file);
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: PreprocessFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), format, quality);
+  });
+
+/**
+ * Sets up the canvas transform for an EXIF orientation, where width and
+ * height are the size of the un-rotated drawing.
+ */
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+// APP1 segment whose EXIF says only "Orientation = 6" (rotate 90° clockwise)
+const ROTATED_EXIF_SEGMENT = new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22, // APP1, 34 bytes
+  0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // "Exif\0\0"
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // Big-endian TIFF header, IFD0 at 8
+  0x00, 0x01, // One entry
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, // Orientation, SHORT, 6
+  0x00, 0x00, 0x00, 0x00, // No next IFD
+]);
+
+let orientationSupport: Promise<boolean> | null = null;
+
+/**
+ * Whether createImageBitmap applies EXIF orientation itself. Probed once by
+ * decoding a 2×1 JPEG tagged as rotated: a browser that honours the tag hands
+ * it back as 1×2. Orientations that keep the sides (mirroring, 180°) can't be
+ * told apart from the output, so the probe is the only reliable signal.
+ */
+const honoursExifOrientation = (): Promise<boolean> => {
+  orientationSupport ??= (async () => {
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = 2;
+      canvas.height = 1;
+      const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 1)).arrayBuffer());
+      const probe = new Blob([jpeg.subarray(0, 2), ROTATED_EXIF_SEGMENT, jpeg.subarray(2)], { type: 'image/jpeg' });
+      const bitmap = await createImageBitmap(probe, { imageOrientation: 'from-image' });
+      const honoured = bitmap.width === 1 && bitmap.height === 2;
+      bitmap.close();
+      return honoured;
+    } catch (error) {
+      // Assume a modern browser; the worst case is an unrotated photo
+      console.warn("Could not probe EXIF orientation support:", error);
+      return true;
+    }
+  })();
+  return orientationSupport;
+};
+
+/**
+ * Uprights, downsizes and re-encodes an image before it is sent for
+ * identification. Every upload and capture path should go through here.
+ */
+export const preprocessImage = async (
+  file: Blob,
+  options: Partial<PreprocessOptions> = {}
+): Promise<PreprocessedImage> => {
+  const { maxDimension, format, quality } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+  const exif = readExif(await file.arrayBuffer());
+  const metadata: PhotoMetadata = { capturedAt: exif.capturedAt, location: exif.location };
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    // Most browsers can't decode HEIC, but Gemini accepts it as-is
+    if (isHeicFile(file)) {
+      return {
+        base64: await blobToBase64(file),
+        mimeType: HEIC_TYPES.includes(file.type) ? file.type : 'image/heic',
+        width: 0,
+        height: 0,
+        originalBytes: file.size,
+        processedBytes: file.size,
+        metadata,
+      };
+    }
+    console.error("Error decoding image:", error);
+    throw new Error("This image could not be read by your browser.");
+  }
+
+  // Browsers that honour imageOrientation hand back upright pixels; older ones
+  // return the stored frame, which we then rotate or mirror ourselves
+  const orientation = exif.orientation !== 1 && !(await honoursExifOrientation()) ? exif.orientation : 1;
+
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const drawWidth = Math.round(bitmap.width * scale);
+  const drawHeight = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = orientation >= 5 ? drawHeight : drawWidth;
+  canvas.height = orientation >= 5 ? drawWidth : drawHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("Canvas is not available in this browser.");
+  }
+
+  applyOrientation(ctx, orientation, drawWidth, drawHeight);
+  ctx.drawImage(bitmap, 0, 0, drawWidth, drawHeight);
+  bitmap.close();
+
+  const encoded = await canvasToBlob(canvas, format, quality);
+
+  // Re-encoding a small, already upright file can make it larger; keep the original then
+  const keepOriginal = scale === 1
+    && exif.orientation === 1
+    && PASSTHROUGH_TYPES.includes(file.type)
+    && encoded.size >= file.size;
+  const output = keepOriginal ? file : encoded;
+
+  return {
+    base64: await blobToBase64(output),
+    mimeType: output.type || format,
+    width: canvas.width,
+    height: canvas.height,
+    originalBytes: file.size,
+    processedBytes: output.size,
+    metadata,
+  };
+};
+
+/**
+ * Renders a square, center-cropped JPEG thumbnail from a data URL.
+ */
+export const createThumbnail = (dataUrl: string, size = 240): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas is not available in this browser."));
+        return;
+      }
+      const side = Math.min(img.naturalWidth, img.naturalHeight);
+      ctx.drawImage(
+        img,
+        (img.naturalWidth - side) / 2,
+        (img.naturalHeight - side) / 2,
+        side,
+        side,
+        0,
+        0,
+        size,
+        size
+      );
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    img.onerror = () => reject(new Error("Could not load image for thumbnail"));
+    img.src = dataUrl;
+  });
+
+/**
+ * Splits a base64 data URL into its MIME type and payload.
+ */
+export const parseDataUrl = (dataUrl: string): ChatImage | undefined => {
+  const comma = dataUrl.indexOf(',');
+  const mimeType = dataUrl.slice(0, comma).match(/^data:([^;]+);base64$/)?.[1];
+  return mimeType ? { mimeType, data: dataUrl.slice(comma + 1) } : undefined;
+};
+
+/**
+ * A download file name made of `parts`, with the extension of the data URL's image type.
+ */
+export const imageFileName = (parts: string[], dataUrl: string): string => {
+  const slug = parts
+    .join('-')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-|-$/g, '') || 'image';
+  const extension = (dataUrl.match(/^data:image\/([^;,]+)/)?.[1] ?? 'png').replace('jpeg', 'jpg').replace('+xml', '');
+  return `${slug}.${extension}`;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
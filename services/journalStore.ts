@@ -0,0 +1,31 @@
+import { Sighting } from "../types";
+import { SIGHTINGS_STORE, withStore } from "./db";
+import { upgradeSightingStatus } from "./conservationStatus";
+
+/**
+ * Inserts or replaces a sighting.
+ */
+export const saveSighting = async (sighting: Sighting): Promise<void> => {
+  try {
+    await withStore(SIGHTINGS_STORE, 'readwrite', store => store.put(sighting));
+  } catch (error) {
+    console.error("Error saving sighting:", error);
+    throw error;
+  }
+};
+
+/**
+ * Lists every sighting, newest first.
+ */
+export const listSightings = async (): Promise<Sighting[]> => {
+  const sightings = await withStore<Sighting[]>(SIGHTINGS_STORE, 'readonly', store => store.getAll());
+  return sightings.map(upgradeSightingStatus).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getSighting = async (id: string): Promise<Sighting | undefined> => {
+  const sighting = await withStore<Sighting | undefined>(SIGHTINGS_STORE, 'readonly', store => store.get(id));
+  return sighting && upgradeSightingStatus(sighting);
+};
+
+export const deleteSighting = (id: string): Promise<void> =>
+  withStore(SIGHTINGS_STORE, 'readwrite', store => store.delete(id));
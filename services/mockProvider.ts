@@ -0,0 +1,308 @@
+import { ActivityPattern, AnimalComparison, AnimalDetails, AnimalDetection, BoundingBox, ChatImage, ConservationStatus, GeneratedImage, IdentificationCandidate, IdentificationOutcome, IdentificationResult, ImageStyle, PhotoEditRequest, Quiz, QuizQuestion, QuizQuestionType, RangeOverlap } from "../types";
+import { IUCN_NAMES } from "./conservationStatus";
+import { sleep } from "./requestPolicy";
+import { encodePcmChunk, floatToPcm16, OUTPUT_SAMPLE_RATE } from "./pcmAudio";
+import { AnalysisOptions, AnimalAIProvider, AnimalChatSession, ChatSessionOptions, ChatTurnOptions, ComparisonOptions, LiveSessionOptions, LiveVoiceSession, PhotoEditOptions, QuizOptions, SimilarImageOptions } from "./aiProvider";
+
+// Deterministic offline backend for demos and automated tests.
+// The same image always maps to the same fixture, and no network calls are made.
+// Fixtures are English only, whatever locale is requested.
+
+const FIXTURES: Omit<IdentificationCandidate, 'confidence'>[] = [
+  {
+    commonName: "Red Fox",
+    scientificName: "Vulpes vulpes",
+    description: "The red fox is a small, adaptable canid with a rusty coat, white-tipped tail and keen senses. It thrives everywhere from Arctic tundra to city parks, hunting alone at dawn and dusk and caching surplus food for later.",
+    habitat: "Forests, grasslands, farmland and urban areas across the Northern Hemisphere",
+    diet: "Omnivore: rodents, rabbits, birds, insects, fruit and scavenged food",
+    funFact: "Red foxes can hear a watch ticking from 40 metres away and use Earth's magnetic field to aim their pounces.",
+    conservationStatus: ConservationStatus.LEAST_CONCERN,
+    distinguishingFeatures: ["Rusty orange coat", "White-tipped bushy tail", "Black 'stockings' on the legs"],
+    taxonomy: { kingdom: "Animalia", phylum: "Chordata", class: "Mammalia", order: "Carnivora", family: "Canidae", genus: "Vulpes", species: "Vulpes vulpes" },
+    size: { min: 45, max: 90, unit: 'centimeter' },
+    weight: { min: 2.2, max: 14, unit: 'kilogram' },
+    lifespan: { min: 2, max: 5, unit: 'year' },
+    activityPattern: ActivityPattern.NOCTURNAL,
+    nativeRange: ["Europe", "Asia", "North America", "North Africa"],
+  },
+  {
+    commonName: "Grey Heron",
+    scientificName: "Ardea cinerea",
+    description: "The grey heron is a tall, long-legged wading bird that stands motionless in shallow water before spearing prey with its dagger-like bill. It nests in noisy colonies high in trees and flies with its neck folded back.",
+    habitat: "Rivers, lakes, marshes and coastal wetlands across Europe, Asia and Africa",
+    diet: "Carnivore: fish, amphibians, small mammals and insects",
+    funFact: "Grey herons are so patient that they can stand still for over an hour waiting for a fish to swim within reach.",
+    conservationStatus: ConservationStatus.LEAST_CONCERN,
+    distinguishingFeatures: ["Grey back with white neck", "Black stripe above the eye", "Yellow dagger-shaped bill"],
+    taxonomy: { kingdom: "Animalia", phylum: "Chordata", class: "Aves", order: "Pelecaniformes", family: "Ardeidae", genus: "Ardea", species: "Ardea cinerea" },
+    size: { min: 84, max: 102, unit: 'centimeter' },
+    weight: { min: 1, max: 2.1, unit: 'kilogram' },
+    lifespan: { min: 5, max: 15, unit: 'year' },
+    activityPattern: ActivityPattern.DIURNAL,
+    nativeRange: ["Europe", "Asia", "Africa"],
+  },
+  {
+    commonName: "Loggerhead Sea Turtle",
+    scientificName: "Caretta caretta",
+    description: "The loggerhead is a large ocean-going turtle named for its oversized head and powerful jaws. Females return to the beaches where they hatched to lay eggs, while juveniles drift across entire ocean basins.",
+    habitat: "Temperate and tropical oceans, nesting on sandy beaches",
+    diet: "Carnivore: crabs, molluscs, jellyfish and other invertebrates",
+    funFact: "Hatchlings use the Earth's magnetic field as a map to navigate thousands of kilometres of open ocean.",
+    conservationStatus: ConservationStatus.VULNERABLE,
+    distinguishingFeatures: ["Very large head relative to the shell", "Reddish-brown carapace", "Two pairs of prefrontal scales"],
+    taxonomy: { kingdom: "Animalia", phylum: "Chordata", class: "Reptilia", order: "Testudines", family: "Cheloniidae", genus: "Caretta", species: "Caretta caretta" },
+    size: { min: 70, max: 110, unit: 'centimeter' },
+    weight: { min: 80, max: 200, unit: 'kilogram' },
+    lifespan: { min: 47, max: 67, unit: 'year' },
+    activityPattern: ActivityPattern.CATHEMERAL,
+    nativeRange: ["Atlantic Ocean", "Pacific Ocean", "Indian Ocean", "Mediterranean Sea"],
+  },
+];
+
+// Confidences handed out to the fixtures in ranked order.
+const MOCK_CONFIDENCES = [0.82, 0.12, 0.06];
+
+// Images smaller than this (in base64 characters) are reported as unusable,
+// which lets demos exercise the retake flow with a tiny thumbnail.
+const MIN_IMAGE_LENGTH = 2000;
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_STREAM_DELAY_MS = 40;
+
+
+// Cheap, stable hash so fixture selection only depends on the image content.
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i += 97) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+const placeholderImage = (label: string, hue: number): string => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0" stop-color="hsl(${hue},55%,55%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},55%,30%)"/>
+  </linearGradient></defs>
+  <rect width="512" height="512" fill="url(#g)"/>
+  <text x="256" y="256" font-family="sans-serif" font-size="32" fill="white" text-anchor="middle">${label}</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+/**
+ * Generates a short PCM16 chime so the voice UI has something to play.
+ */
+const createChime = (): string => {
+  const samples = new Float32Array(Math.floor(OUTPUT_SAMPLE_RATE * 0.6));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const envelope = Math.sin(Math.PI * (i / samples.length));
+    samples[i] = Math.sin(2 * Math.PI * 660 * t) * envelope * 0.3;
+  }
+  return encodePcmChunk(floatToPcm16(samples), OUTPUT_SAMPLE_RATE).data;
+};
+
+const identifyAnimal = async (base64Image: string, _mimeType: string, { signal }: AnalysisOptions = {}): Promise<IdentificationResult> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  if (base64Image.length < MIN_IMAGE_LENGTH) {
+    return {
+      outcome: IdentificationOutcome.POOR_IMAGE_QUALITY,
+      candidates: [],
+      issue: "This photo is too small to make out any details.",
+    };
+  }
+  const start = hashString(base64Image) % FIXTURES.length;
+  return {
+    outcome: IdentificationOutcome.ANIMAL_FOUND,
+    candidates: MOCK_CONFIDENCES.map((confidence, rank) => ({
+      ...FIXTURES[(start + rank) % FIXTURES.length],
+      confidence,
+    })),
+  };
+};
+
+// Fixed layout for detection mode: one animal on each side of the frame.
+const MOCK_BOXES: BoundingBox[] = [
+  { xMin: 0.08, yMin: 0.2, xMax: 0.46, yMax: 0.85 },
+  { xMin: 0.55, yMin: 0.45, xMax: 0.92, yMax: 0.9 },
+];
+
+const detectAnimals = async (base64Image: string, _mimeType: string, { signal }: AnalysisOptions = {}): Promise<AnimalDetection[]> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const start = hashString(base64Image) % FIXTURES.length;
+  return MOCK_BOXES.map((box, index) => ({
+    box,
+    candidates: [{ ...FIXTURES[(start + index) % FIXTURES.length], confidence: MOCK_CONFIDENCES[0] }],
+  }));
+};
+
+const IMAGE_STYLES = Object.values(ImageStyle);
+
+// The placeholder label stands in for a prompt
+const similarImagePrompt = (animalName: string, style: ImageStyle): string =>
+  `${animalName} · ${style.toLowerCase().replace(/_/g, ' ')}`;
+
+const generateSimilarImage = async (animalName: string, style: ImageStyle, { signal }: SimilarImageOptions = {}): Promise<GeneratedImage> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const prompt = similarImagePrompt(animalName, style);
+  const hue = (hashString(animalName) + IMAGE_STYLES.indexOf(style) * 72) % 360;
+  return { url: placeholderImage(prompt, hue), prompt };
+};
+
+// Stands in for the edited photo with a placeholder naming the edit
+const editPhoto = async (_base64Image: string, _mimeType: string, { preset, instruction }: PhotoEditRequest, { animalName, signal }: PhotoEditOptions): Promise<GeneratedImage> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const prompt = `${animalName} · ${instruction?.trim() || preset.toLowerCase().replace(/_/g, ' ')}`;
+  return { url: placeholderImage(prompt, hashString(prompt) % 360), prompt };
+};
+
+// Built from the fixtures alone, so it reads sensibly for any pair
+const compareAnimals = async (first: AnimalDetails, second: AnimalDetails, { signal }: ComparisonOptions = {}): Promise<AnimalComparison> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const shared = (first.nativeRange ?? []).filter(region => (second.nativeRange ?? []).includes(region));
+  return {
+    summary: `The ${first.commonName} and the ${second.commonName} are easiest to tell apart by where they live and what they eat.`,
+    distinguishingFeatures: [
+      { aspect: 'Species', first: first.scientificName, second: second.scientificName },
+      { aspect: 'Active', first: first.activityPattern ?? 'Unknown', second: second.activityPattern ?? 'Unknown' },
+    ],
+    sizeDifference: `Compare their typical sizes above: the ${first.commonName} and the ${second.commonName} are built for different lifestyles.`,
+    rangeOverlap: shared.length === 0 ? RangeOverlap.NONE : RangeOverlap.PARTIAL,
+    rangeOverlapDetails: shared.length === 0
+      ? `Their native ranges don't meet.`
+      : `Both occur naturally in ${shared.join(', ')}.`,
+    dietDifferences: [{ aspect: 'Diet', first: first.diet, second: second.diet }],
+  };
+};
+
+// Wrong choices come from the other fixtures; the right one moves around between questions
+const choiceQuestion = (animalData: AnimalDetails, question: string, field: 'scientificName' | 'habitat' | 'diet', seed: number): QuizQuestion => {
+  const distractors = FIXTURES.filter(fixture => fixture.scientificName !== animalData.scientificName).map(fixture => fixture[field]);
+  const correctIndex = seed % (distractors.length + 1);
+  const options = [...distractors];
+  options.splice(correctIndex, 0, animalData[field]);
+  return {
+    type: QuizQuestionType.MULTIPLE_CHOICE,
+    question,
+    options,
+    correctIndex,
+    explanation: `The ${animalData.commonName}'s ${field === 'scientificName' ? 'scientific name' : field} is: ${animalData[field]}.`,
+  };
+};
+
+const trueFalseQuestion = (question: string, isTrue: boolean, explanation: string): QuizQuestion => ({
+  type: QuizQuestionType.TRUE_FALSE,
+  question,
+  options: ['True', 'False'],
+  correctIndex: isTrue ? 0 : 1,
+  explanation,
+});
+
+// Built from the animal's own details, like the real quiz
+const generateQuiz = async (animalData: AnimalDetails, { signal }: QuizOptions = {}): Promise<Quiz> => {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const seed = hashString(animalData.scientificName);
+  const status = IUCN_NAMES[animalData.conservationStatus];
+  return {
+    questions: [
+      choiceQuestion(animalData, `What is the scientific name of the ${animalData.commonName}?`, 'scientificName', seed),
+      trueFalseQuestion(
+        `The ${animalData.commonName} is listed as ${status}.`,
+        true,
+        `Its conservation status is ${status}.`,
+      ),
+      choiceQuestion(animalData, `Where does the ${animalData.commonName} usually live?`, 'habitat', seed + 1),
+      trueFalseQuestion(
+        `The ${animalData.commonName} is mostly active at night.`,
+        animalData.activityPattern === ActivityPattern.NOCTURNAL,
+        `Its activity pattern is ${(animalData.activityPattern ?? 'unknown').toLowerCase()}.`,
+      ),
+      choiceQuestion(animalData, `What does the ${animalData.commonName} eat?`, 'diet', seed + 2),
+    ],
+  };
+};
+
+const answerQuestion = (animalData: AnimalDetails, message: string, images: ChatImage[] = []): string => {
+  const question = message.toLowerCase();
+  if (images.length > 0) {
+    const photos = images.length === 1 ? 'that photo' : `those ${images.length} photos`;
+    return `Thanks for ${photos}! They look consistent with a ${animalData.commonName}. ${animalData.description}`;
+  }
+  if (/(eat|diet|food|hunt)/.test(question)) {
+    return `Here's what the ${animalData.commonName} eats. ${animalData.diet}.`;
+  }
+  if (/(live|habitat|where|found)/.test(question)) {
+    return `You'll usually find the ${animalData.commonName} here: ${animalData.habitat}.`;
+  }
+  if (/(endangered|conservation|status|threat)/.test(question)) {
+    return `The ${animalData.commonName} is currently listed as ${IUCN_NAMES[animalData.conservationStatus]}.`;
+  }
+  return `Here's something neat about the ${animalData.commonName}: ${animalData.funFact}`;
+};
+
+const answerComparison = (first: AnimalDetails, second: AnimalDetails): string =>
+  `The ${first.commonName} lives here: ${first.habitat}. The ${second.commonName} lives here: ${second.habitat}.`;
+
+const createChat = (animalData: AnimalDetails, { comparedWith }: ChatSessionOptions = {}): AnimalChatSession => {
+  const answer = (message: string, images?: ChatImage[]) =>
+    comparedWith && /(differ|compar|versus|\bvs\b|apart)/.test(message.toLowerCase())
+      ? answerComparison(animalData, comparedWith)
+      : answerQuestion(animalData, message, images);
+
+  return {
+    sendMessage: async (message, { images, signal }: ChatTurnOptions = {}) => {
+      await sleep(MOCK_LATENCY_MS, signal);
+      return answer(message, images);
+    },
+    sendMessageStream: async function* (message, { images, signal }: ChatTurnOptions = {}) {
+      await sleep(MOCK_LATENCY_MS, signal);
+      // Word by word, so the streaming UI has something to show
+      for (const word of answer(message, images).split(/(?<= )/)) {
+        if (signal?.aborted) return;
+        yield word;
+        await sleep(MOCK_STREAM_DELAY_MS, signal);
+      }
+    },
+  };
+};
+
+const connectLive = async ({ animalData, callbacks }: LiveSessionOptions): Promise<LiveVoiceSession> => {
+  let closed = false;
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  const schedule = (fn: () => void, ms: number) => {
+    timers.push(setTimeout(() => { if (!closed) fn(); }, ms));
+  };
+
+  // Fire asynchronously so callers can store the session before onOpen runs.
+  schedule(() => callbacks.onOpen(), MOCK_LATENCY_MS);
+  schedule(() => {
+    callbacks.onAudio(createChime());
+    callbacks.onTranscription('model', `Hi! Ask me anything about the ${animalData.commonName}.`);
+    callbacks.onTurnComplete();
+  }, MOCK_LATENCY_MS * 2);
+
+  return {
+    sendAudio: () => {},
+    endAudioStream: () => {},
+    close: () => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(clearTimeout);
+      callbacks.onClose();
+    },
+  };
+};
+
+export const mockProvider: AnimalAIProvider = {
+  name: 'mock',
+  identifyAnimal,
+  detectAnimals,
+  generateSimilarImage,
+  similarImagePrompt,
+  editPhoto,
+  compareAnimals,
+  generateQuiz,
+  createChat,
+  connectLive,
+};
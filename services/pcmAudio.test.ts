@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { base64ToBytes, bytesToBase64, createFrameBatcher, createPcm16Decoder, createResampler, floatToPcm16 } from './pcmAudio';
+
+const toBase64 = (bytes: number[]) => bytesToBase64(new Uint8Array(bytes));
+
+describe('floatToPcm16', () => {
+  it('maps full scale to the int16 limits', () => {
+    expect(Array.from(floatToPcm16(new Float32Array([1, -1, 0])))).toEqual([32767, -32768, 0]);
+  });
+
+  it('clips samples outside [-1, 1]', () => {
+    expect(Array.from(floatToPcm16(new Float32Array([1.5, -2, 100, -Infinity])))).toEqual([32767, -32768, 32767, -32768]);
+  });
+
+  it('treats NaN as silence', () => {
+    expect(Array.from(floatToPcm16(new Float32Array([NaN])))).toEqual([0]);
+  });
+});
+
+describe('bytesToBase64 / base64ToBytes', () => {
+  it('round-trips buffers that span several encoding blocks', () => {
+    const bytes = new Uint8Array(0x8000 * 2 + 123);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = (i * 31) % 256;
+    const decoded = base64ToBytes(bytesToBase64(bytes));
+    expect(decoded).toEqual(bytes);
+  });
+
+  it('round-trips a buffer exactly one block long', () => {
+    const bytes = new Uint8Array(0x8000).fill(0xff);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('createPcm16Decoder', () => {
+  // Little-endian 0x4000 (16384) and 0xC000 (-16384)
+  const samples = [0x00, 0x40, 0x00, 0xc0];
+
+  it('decodes whole samples', () => {
+    const decode = createPcm16Decoder();
+    expect(Array.from(decode(toBase64(samples)))).toEqual([0.5, -0.5]);
+  });
+
+  it('carries an odd byte over to the next chunk', () => {
+    const decode = createPcm16Decoder();
+    const first = decode(toBase64(samples.slice(0, 3)));
+    const second = decode(toBase64(samples.slice(3)));
+    expect(Array.from(first)).toEqual([0.5]);
+    expect(Array.from(second)).toEqual([-0.5]);
+  });
+
+  it('handles a chunk of a single byte', () => {
+    const decode = createPcm16Decoder();
+    expect(decode(toBase64([0x00])).length).toBe(0);
+    expect(Array.from(decode(toBase64(samples.slice(1))))).toEqual([0.5, -0.5]);
+  });
+
+  // VoiceModal swaps in a new decoder when the connection drops mid-sample
+  it('starts aligned again when replaced after a dropped stream', () => {
+    const dropped = createPcm16Decoder();
+    dropped(toBase64(samples.slice(0, 3)));
+    expect(Array.from(dropped(toBase64(samples)))).not.toEqual([0.5, -0.5]);
+
+    const decode = createPcm16Decoder();
+    expect(Array.from(decode(toBase64(samples)))).toEqual([0.5, -0.5]);
+  });
+});
+
+describe('createResampler', () => {
+  const input = Float32Array.from({ length: 480 }, (_, i) => Math.sin(i / 7));
+
+  const resampleInChunks = (inputRate: number, outputRate: number, sizes: number[]) => {
+    const resample = createResampler(inputRate, outputRate);
+    const out: number[] = [];
+    let offset = 0;
+    for (const size of sizes) {
+      out.push(...resample(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+    return out;
+  };
+
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+    [16000, 24000],
+  ])('matches whole-buffer output when %i Hz is fed to %i Hz in chunks', (inputRate, outputRate) => {
+    const whole = Array.from(createResampler(inputRate, outputRate)(input));
+    const chunked = resampleInChunks(inputRate, outputRate, [1, 127, 2, 128, 222]);
+    expect(chunked).toHaveLength(whole.length);
+    chunked.forEach((value, i) => expect(value).toBeCloseTo(whole[i], 6));
+  });
+
+  it('passes audio through unchanged when the rates match', () => {
+    expect(Array.from(createResampler(16000, 16000)(input))).toEqual(Array.from(input));
+  });
+});
+
+describe('createFrameBatcher', () => {
+  const ramp = (from: number, length: number) => Float32Array.from({ length }, (_, i) => (from + i) / 1000);
+
+  it('holds samples back until a frame is full', () => {
+    const batch = createFrameBatcher(4);
+    expect(batch(ramp(0, 3))).toEqual([]);
+    expect(batch(ramp(3, 2)).map(frame => Array.from(frame))).toEqual([Array.from(ramp(0, 4))]);
+  });
+
+  it('emits several frames from one chunk, in order, and keeps the remainder', () => {
+    const batch = createFrameBatcher(4);
+    const frames = batch(ramp(0, 10));
+    expect(frames.map(frame => Array.from(frame))).toEqual([Array.from(ramp(0, 4)), Array.from(ramp(4, 4))]);
+    expect(Array.from(batch(ramp(10, 2))[0])).toEqual(Array.from(ramp(8, 4)));
+  });
+
+  it('returns frames that later calls do not overwrite', () => {
+    const batch = createFrameBatcher(2);
+    const [first] = batch(ramp(0, 2));
+    batch(ramp(2, 2));
+    expect(Array.from(first)).toEqual(Array.from(ramp(0, 2)));
+  });
+});
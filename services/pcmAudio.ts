@@ -0,0 +1,153 @@
+import { LiveAudioChunk } from "./aiProvider";
+
+// PCM16 and base64 helpers for the live voice pipeline. Kept free of React
+// and Web Audio state so they can be tested alone. createResampler,
+// createFrameBatcher and floatToPcm16 are also inlined into the capture
+// worklet, so they must not reference anything outside their own bodies.
+
+/** Sample rate the live session expects for microphone input. */
+export const INPUT_SAMPLE_RATE = 16000;
+/** Sample rate of the audio the live session sends back. */
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+/** Name the capture worklet registers its processor under. */
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture';
+
+export interface PcmCaptureOptions {
+  targetSampleRate: number;
+  /** Samples per posted chunk, at the target rate. */
+  chunkSize: number;
+}
+
+// btoa/String.fromCharCode work on one block at a time to avoid huge argument lists
+const BASE64_BLOCK_SIZE = 0x8000;
+
+/**
+ * Converts float samples to signed 16-bit PCM. Input is clamped to [-1, 1]
+ * and scaled asymmetrically, so +1.0 maps to 32767 instead of overflowing.
+ */
+export const floatToPcm16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i] || 0));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+};
+
+export const pcm16ToFloat = (pcm: Int16Array): Float32Array => {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 0x8000;
+  return samples;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const blocks: string[] = [];
+  for (let i = 0; i < bytes.length; i += BASE64_BLOCK_SIZE) {
+    blocks.push(String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + BASE64_BLOCK_SIZE))));
+  }
+  return btoa(blocks.join(''));
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Wraps PCM16 samples as a base64 chunk for the live session.
+ */
+export const encodePcmChunk = (pcm: Int16Array, sampleRate = INPUT_SAMPLE_RATE): LiveAudioChunk => ({
+  data: bytesToBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+  mimeType: `audio/pcm;rate=${sampleRate}`,
+});
+
+/**
+ * Returns a decoder for a stream of base64 PCM16 chunks. A chunk that ends
+ * halfway through a sample keeps its odd byte for the next one, so nothing is
+ * dropped or misaligned at chunk boundaries.
+ */
+export const createPcm16Decoder = () => {
+  let carry: number | null = null;
+
+  return (base64: string): Float32Array => {
+    const incoming = base64ToBytes(base64);
+    const bytes = new Uint8Array(incoming.length + (carry === null ? 0 : 1));
+    if (carry !== null) bytes[0] = carry;
+    bytes.set(incoming, carry === null ? 0 : 1);
+
+    const evenLength = bytes.length - (bytes.length % 2);
+    carry = evenLength < bytes.length ? bytes[evenLength] : null;
+    return pcm16ToFloat(new Int16Array(bytes.buffer, 0, evenLength / 2));
+  };
+};
+
+/**
+ * Returns a linear-interpolation resampler for a stream of chunks. It keeps
+ * the last input sample and the fractional read position between calls, so
+ * consecutive chunks resample exactly like one long buffer.
+ */
+export const createResampler = (inputRate: number, outputRate: number) => {
+  const step = inputRate / outputRate;
+  // Read position of the next output sample, relative to the current chunk.
+  // It can be negative, which means "between the previous chunk's last sample and this one".
+  let position = 0;
+  let previous = 0;
+
+  return (input: Float32Array): Float32Array => {
+    if (inputRate === outputRate) return input.slice();
+    if (input.length === 0) return new Float32Array(0);
+
+    const output = new Float32Array(Math.ceil((input.length - position) / step) + 1);
+    let count = 0;
+    while (position <= input.length - 1) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const from = index < 0 ? previous : input[index];
+      const to = fraction === 0 ? from : input[index + 1];
+      output[count++] = from + (to - from) * fraction;
+      position += step;
+    }
+
+    position -= input.length;
+    previous = input[input.length - 1];
+    return output.subarray(0, count);
+  };
+};
+
+/**
+ * Returns a batcher that regroups a stream of chunks into frames of exactly
+ * `frameSize` samples. Samples that don't fill a frame wait for the next call.
+ */
+export const createFrameBatcher = (frameSize: number) => {
+  const frame = new Float32Array(frameSize);
+  let filled = 0;
+
+  return (samples: Float32Array): Float32Array[] => {
+    const frames: Float32Array[] = [];
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(samples.length - offset, frameSize - filled);
+      frame.set(samples.subarray(offset, offset + count), filled);
+      filled += count;
+      offset += count;
+
+      if (filled === frameSize) {
+        frames.push(frame.slice());
+        filled = 0;
+      }
+    }
+    return frames;
+  };
+};
+
+/**
+ * Copies mono float samples into an AudioBuffer for playback.
+ */
+export const toAudioBuffer = (ctx: BaseAudioContext, samples: Float32Array, sampleRate = OUTPUT_SAMPLE_RATE): AudioBuffer => {
+  const buffer = ctx.createBuffer(1, Math.max(1, samples.length), sampleRate);
+  buffer.getChannelData(0).set(samples);
+  return buffer;
+};
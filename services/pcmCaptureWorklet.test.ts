@@ -0,0 +1,52 @@
+import { resolveObjectURL } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+import { PCM_CAPTURE_PROCESSOR } from './pcmAudio';
+import { getCaptureWorkletUrl } from './pcmCaptureWorklet';
+
+// Runs the assembled worklet module against minimal AudioWorkletGlobalScope stand-ins
+const loadProcessor = async (sampleRate: number) => {
+  const source = await resolveObjectURL(getCaptureWorkletUrl())!.text();
+  const registered: Record<string, any> = {};
+  class AudioWorkletProcessor {
+    port = { posted: [] as Int16Array[], postMessage(data: Int16Array) { this.posted.push(data); } };
+  }
+  new Function('AudioWorkletProcessor', 'registerProcessor', 'sampleRate', source)(
+    AudioWorkletProcessor,
+    (name: string, processor: unknown) => { registered[name] = processor; },
+    sampleRate,
+  );
+  return registered[PCM_CAPTURE_PROCESSOR];
+};
+
+describe('capture worklet', () => {
+  it('posts PCM16 frames of exactly chunkSize samples across render quanta', async () => {
+    const Processor = await loadProcessor(16000);
+    const processor = new Processor({ processorOptions: { targetSampleRate: 16000, chunkSize: 200 } });
+    const quantum = new Float32Array(128).fill(0.5);
+
+    for (let i = 0; i < 5; i++) expect(processor.process([[quantum]])).toBe(true);
+
+    // 640 samples make three full frames; the last 40 wait for the next quantum
+    expect(processor.port.posted).toHaveLength(3);
+    processor.port.posted.forEach((frame: Int16Array) => {
+      expect(frame).toBeInstanceOf(Int16Array);
+      expect(frame.length).toBe(200);
+      expect(frame[0]).toBe(Math.floor(0.5 * 0x7fff));
+    });
+  });
+
+  it('resamples to the target rate before batching', async () => {
+    const Processor = await loadProcessor(48000);
+    const processor = new Processor({ processorOptions: { targetSampleRate: 16000, chunkSize: 128 } });
+    for (let i = 0; i < 3; i++) processor.process([[new Float32Array(128)]]);
+    // 384 samples at 48 kHz are 128 at 16 kHz: one frame
+    expect(processor.port.posted).toHaveLength(1);
+  });
+
+  it('keeps running when there is no input', async () => {
+    const Processor = await loadProcessor(16000);
+    const processor = new Processor({ processorOptions: { targetSampleRate: 16000, chunkSize: 128 } });
+    expect(processor.process([[]])).toBe(true);
+    expect(processor.port.posted).toHaveLength(0);
+  });
+});
@@ -0,0 +1,49 @@
+import { createFrameBatcher, createResampler, floatToPcm16, PCM_CAPTURE_PROCESSOR } from "./pcmAudio";
+
+// AudioWorklet that turns microphone input into 16 kHz PCM16 chunks off the
+// main thread. Worklets must be loaded from a URL, and the app isn't always
+// served through a bundler, so the module is assembled from source here. The
+// helpers it needs are self-contained functions from pcmAudio, inlined by toString().
+
+const WORKLET_SOURCE = `
+const createResampler = ${createResampler.toString()};
+const createFrameBatcher = ${createFrameBatcher.toString()};
+const floatToPcm16 = ${floatToPcm16.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    // The context runs at whatever rate the device picked; convert here
+    this.resample = createResampler(sampleRate, targetSampleRate);
+    this.batch = createFrameBatcher(chunkSize);
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (const frame of this.batch(this.resample(channel))) {
+      const pcm = floatToPcm16(frame);
+      this.port.postMessage(pcm, [pcm.buffer]);
+    }
+    return true;
+  }
+}
+
+registerProcessor(${JSON.stringify(PCM_CAPTURE_PROCESSOR)}, PcmCaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+
+/**
+ * Object URL for `audioWorklet.addModule`. The processor posts Int16Array
+ * chunks of `chunkSize` samples; configure it through `processorOptions`
+ * (see PcmCaptureOptions).
+ */
+export const getCaptureWorkletUrl = (): string => {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+  }
+  return workletUrl;
+};
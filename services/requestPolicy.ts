@@ -0,0 +1,101 @@
+import { ApiError } from "@google/genai";
+
+// Timeout and retry policy for calls to the AI backend. Providers only honour
+// an AbortSignal; geminiService wraps each call in `withRetry`, which gives
+// every attempt its own deadline and retries the failures worth retrying.
+
+export interface RequestOptions {
+  /** Aborting cancels the request, including any retry that is waiting. */
+  signal?: AbortSignal;
+  /** Deadline for each attempt, in milliseconds. */
+  timeoutMs?: number;
+  /** Extra attempts after the first one fails with a retryable error. */
+  retries?: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 60000;
+export const DEFAULT_RETRIES = 2;
+
+// Rate limiting and transient server-side failures
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * An attempt ran past its deadline.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`AI request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * True for rate limits and transient server errors, and for requests that
+ * never reached the server (fetch rejects those with a TypeError).
+ */
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof ApiError ? RETRYABLE_STATUSES.includes(error.status) : error instanceof TypeError;
+
+const abortError = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new DOMException("The operation was aborted.", 'AbortError');
+
+/**
+ * Exponential backoff with jitter: roughly 0.5s, 1s, 2s, capped at 8s.
+ */
+export const retryDelay = (attempt: number): number => {
+  const base = Math.min(8000, 500 * 2 ** attempt);
+  return base / 2 + Math.random() * (base / 2);
+};
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError(signal));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError(signal!));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `operation` with a per-attempt timeout, retrying retryable failures
+ * with exponential backoff. The signal handed to `operation` aborts when the
+ * caller aborts or the attempt times out; after a successful attempt it keeps
+ * following the caller's signal, so a returned stream can still be cancelled.
+ */
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES }: RequestOptions = {},
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError(signal);
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs);
+
+    try {
+      return await operation(controller.signal);
+    } catch (error) {
+      signal?.removeEventListener('abort', forwardAbort);
+      if (signal?.aborted) throw abortError(signal);
+      // The SDK reports its own abort; surface the timeout that caused it instead
+      const failure = controller.signal.aborted ? controller.signal.reason : error;
+      if (attempt >= retries || !isRetryableError(failure)) throw failure;
+      console.warn(`AI request failed, retrying (${attempt + 1}/${retries}):`, failure);
+      await sleep(retryDelay(attempt), signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+};
@@ -0,0 +1,112 @@
+import { RESPONSE_CACHE_STORE, promisifyRequest, withStore } from "./db";
+
+// Identifications and generated images are slow and billed per request, so
+// answers are kept in IndexedDB under a content hash: the same photo, or the
+// same animal and prompt, reuses the stored answer. Entries expire after
+// CACHE_TTL_MS, and the least recently used ones are evicted once the store
+// grows past CACHE_MAX_BYTES.
+
+export interface CacheOptions {
+  /** Skips any stored answer and replaces it with a fresh one. */
+  refresh?: boolean;
+  /** A stored answer read after this aborts is not returned. */
+  signal?: AbortSignal;
+}
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  /** Approximate size of `value` in bytes. */
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Hex encoded SHA-256 of raw bytes or a string.
+ */
+export const sha256 = async (data: Uint8Array | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Hashes the bytes a base64 string decodes to.
+ */
+export const hashBase64 = (base64: string): Promise<string> =>
+  sha256(Uint8Array.from(atob(base64), char => char.charCodeAt(0)));
+
+// Payloads are mostly base64 images, so string length is close enough to bytes
+const estimateSize = (value: unknown): number => JSON.stringify(value)?.length ?? 0;
+
+const isExpired = (entry: CacheEntry, now: number) => now - entry.createdAt > CACHE_TTL_MS;
+
+/**
+ * Walks entries from most to least recently used, dropping expired ones and
+ * everything past the size budget.
+ */
+const evict = (store: IDBObjectStore, now: number) => new Promise<void>((resolve, reject) => {
+  let total = 0;
+  const request = store.index('lastUsedAt').openCursor(null, 'prev');
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return resolve();
+    const entry = cursor.value as CacheEntry;
+    if (isExpired(entry, now) || total + entry.size > CACHE_MAX_BYTES) {
+      cursor.delete();
+    } else {
+      total += entry.size;
+    }
+    cursor.continue();
+  };
+  request.onerror = () => reject(request.error);
+});
+
+const readEntry = <T>(key: string): Promise<T | undefined> =>
+  withStore<T | undefined>(RESPONSE_CACHE_STORE, 'readwrite', async store => {
+    const entry = await promisifyRequest<CacheEntry<T> | undefined>(store.get(key));
+    if (!entry) return undefined;
+    const now = Date.now();
+    if (isExpired(entry, now)) {
+      store.delete(key);
+      return undefined;
+    }
+    store.put({ ...entry, lastUsedAt: now });
+    return entry.value;
+  });
+
+const writeEntry = <T>(key: string, value: T): Promise<void> =>
+  withStore(RESPONSE_CACHE_STORE, 'readwrite', store => {
+    const now = Date.now();
+    const entry: CacheEntry<T> = { key, value, size: estimateSize(value), createdAt: now, lastUsedAt: now };
+    store.put(entry);
+    return evict(store, now);
+  });
+
+/**
+ * Returns the stored answer for `key`, or runs `load` and stores its result.
+ * The cache is best-effort: if IndexedDB is unavailable, `load` simply runs
+ * every time. Rejects with an AbortError once `signal` aborts.
+ */
+export const cached = async <T>(key: string, load: () => Promise<T>, { refresh = false, signal }: CacheOptions = {}): Promise<T> => {
+  if (!refresh) {
+    let hit: T | undefined;
+    try {
+      hit = await readEntry<T>(key);
+    } catch (error) {
+      console.warn("Error reading response cache:", error);
+    }
+    // The read is async, so the caller may have moved on by now
+    signal?.throwIfAborted();
+    if (hit !== undefined) return hit;
+  }
+
+  const value = await load();
+  signal?.throwIfAborted();
+  writeEntry(key, value).catch(error => console.warn("Error writing response cache:", error));
+  return value;
+};
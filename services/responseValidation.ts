@@ -0,0 +1,136 @@
+import { Schema, Type } from "@google/genai";
+
+// Structured output is a request, not a guarantee: responses can be truncated,
+// miss required fields or run far past the lengths the UI is laid out for.
+// Everything parsed from the model is checked against the same Schema it was
+// asked to follow before any of it reaches the UI.
+
+export interface SchemaViolation {
+  /** Dotted path to the offending value, e.g. "candidates.0.habitat". */
+  path: string;
+  message: string;
+}
+
+// Keeps the repair prompt and error messages readable
+const MAX_REPORTED_VIOLATIONS = 20;
+
+export const describeViolations = (violations: SchemaViolation[]): string =>
+  violations
+    .slice(0, MAX_REPORTED_VIOLATIONS)
+    .map(violation => `${violation.path || 'response'} ${violation.message}`)
+    .join('; ')
+  + (violations.length > MAX_REPORTED_VIOLATIONS ? `; and ${violations.length - MAX_REPORTED_VIOLATIONS} more` : '');
+
+/**
+ * The model's JSON could not be used, even after asking it to fix its answer.
+ */
+export class InvalidModelResponseError extends Error {
+  readonly violations: SchemaViolation[];
+
+  constructor(violations: SchemaViolation[]) {
+    super(`AI response did not match the expected format: ${describeViolations(violations)}`);
+    this.name = 'InvalidModelResponseError';
+    this.violations = violations;
+  }
+}
+
+const join = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+// Schema counts are int64s, which the SDK types as strings
+const limit = (value: string | undefined): number | undefined =>
+  value === undefined ? undefined : Number(value);
+
+const validateValue = (value: unknown, schema: Schema, path: string, violations: SchemaViolation[]) => {
+  if (value === null || value === undefined) {
+    if (!schema.nullable) violations.push({ path, message: 'is missing' });
+    return;
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeOf(value) !== 'object') {
+        violations.push({ path, message: `should be an object, got ${typeOf(value)}` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined || record[key] === null) violations.push({ path: join(path, key), message: 'is required' });
+      }
+      // Missing required keys were reported above; optional ones may be absent or null
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined && record[key] !== null) validateValue(record[key], property, join(path, key), violations);
+      }
+      return;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        violations.push({ path, message: `should be an array, got ${typeOf(value)}` });
+        return;
+      }
+      const minItems = limit(schema.minItems);
+      const maxItems = limit(schema.maxItems);
+      if (minItems !== undefined && value.length < minItems) violations.push({ path, message: `should have at least ${minItems} items` });
+      if (maxItems !== undefined && value.length > maxItems) violations.push({ path, message: `should have at most ${maxItems} items` });
+      if (schema.items) value.forEach((item, idx) => validateValue(item, schema.items!, join(path, idx), violations));
+      return;
+    }
+    case Type.STRING: {
+      if (typeof value !== 'string') {
+        violations.push({ path, message: `should be a string, got ${typeOf(value)}` });
+        return;
+      }
+      const minLength = limit(schema.minLength);
+      const maxLength = limit(schema.maxLength);
+      if (schema.enum && !schema.enum.includes(value)) {
+        violations.push({ path, message: `should be one of ${schema.enum.join(', ')}` });
+      }
+      if (minLength !== undefined && value.trim().length < minLength) {
+        violations.push({ path, message: minLength === 1 ? 'should not be empty' : `should be at least ${minLength} characters` });
+      }
+      if (maxLength !== undefined && value.length > maxLength) violations.push({ path, message: `should be at most ${maxLength} characters, got ${value.length}` });
+      return;
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        violations.push({ path, message: `should be a number, got ${typeOf(value)}` });
+        return;
+      }
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) violations.push({ path, message: 'should be an integer' });
+      if (schema.minimum !== undefined && value < schema.minimum) violations.push({ path, message: `should be at least ${schema.minimum}` });
+      if (schema.maximum !== undefined && value > schema.maximum) violations.push({ path, message: `should be at most ${schema.maximum}` });
+      return;
+    }
+    case Type.BOOLEAN:
+      if (typeof value !== 'boolean') violations.push({ path, message: `should be a boolean, got ${typeOf(value)}` });
+      return;
+    default:
+      return;
+  }
+};
+
+/**
+ * Checks a parsed value against a response schema: types, required fields,
+ * enums, string lengths, array sizes and numeric ranges. An empty list means
+ * the value is safe to use.
+ */
+export const validateAgainstSchema = (value: unknown, schema: Schema): SchemaViolation[] => {
+  const violations: SchemaViolation[] = [];
+  validateValue(value, schema, '', violations);
+  return violations;
+};
+
+/**
+ * Parses model output, reporting broken or truncated JSON as a violation
+ * rather than throwing, so it can be sent back for repair.
+ */
+export const parseModelJson = (text: string): { value?: unknown; violations: SchemaViolation[] } => {
+  try {
+    return { value: JSON.parse(text), violations: [] };
+  } catch (error) {
+    return { violations: [{ path: '', message: `is not valid JSON (${error instanceof Error ? error.message : 'parse error'})` }] };
+  }
+};
@@ -0,0 +1,68 @@
+// State machine for a live voice session. VoiceModal feeds it events from the
+// socket and the audio player through useReducer, so every transition sees the
+// current state instead of whatever a callback closed over.
+
+export type VoiceStatus = 'connecting' | 'listening' | 'speaking' | 'reconnecting' | 'error';
+
+export interface VoiceSessionState {
+  status: VoiceStatus;
+  /** 1-based attempt number while reconnecting, 0 otherwise. */
+  reconnectAttempt: number;
+  errorMessage: string;
+}
+
+export type VoiceSessionEvent =
+  | { type: 'CONNECTED' }
+  /** Model audio was queued for playback. */
+  | { type: 'PLAYBACK_STARTED' }
+  /** Every queued chunk has finished playing. */
+  | { type: 'PLAYBACK_ENDED' }
+  /** The user spoke over the model and the server cut its reply. */
+  | { type: 'INTERRUPTED' }
+  | { type: 'CONNECTION_LOST'; attempt: number }
+  | { type: 'FAILED'; message: string };
+
+export const INITIAL_VOICE_STATE: VoiceSessionState = {
+  status: 'connecting',
+  reconnectAttempt: 0,
+  errorMessage: '',
+};
+
+export const voiceSessionReducer = (state: VoiceSessionState, event: VoiceSessionEvent): VoiceSessionState => {
+  // A failed session stays failed; the user has to close the modal
+  if (state.status === 'error') return state;
+
+  switch (event.type) {
+    case 'CONNECTED':
+      if (state.status !== 'connecting' && state.status !== 'reconnecting') return state;
+      return { ...state, status: 'listening', reconnectAttempt: 0 };
+    case 'PLAYBACK_STARTED':
+      return state.status === 'listening' ? { ...state, status: 'speaking' } : state;
+    case 'PLAYBACK_ENDED':
+    case 'INTERRUPTED':
+      return state.status === 'speaking' ? { ...state, status: 'listening' } : state;
+    case 'CONNECTION_LOST':
+      return { ...state, status: 'reconnecting', reconnectAttempt: event.attempt };
+    case 'FAILED':
+      return { ...state, status: 'error', errorMessage: event.message };
+    default:
+      return state;
+  }
+};
+
+/**
+ * Exponential backoff with jitter: roughly 1s, 2s, 4s, 8s, capped at 15s.
+ */
+export const reconnectDelay = (attempt: number): number => {
+  const base = Math.min(15000, 1000 * 2 ** (attempt - 1));
+  return base / 2 + Math.random() * (base / 2);
+};
+
+export const MAX_RECONNECT_ATTEMPTS = 5;
+
+/**
+ * How long a connection has to stay up before the reconnect budget starts
+ * over. A server that accepts and then drops the socket right away keeps
+ * counting against MAX_RECONNECT_ATTEMPTS.
+ */
+export const STABLE_CONNECTION_MS = 10000;
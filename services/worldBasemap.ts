@@ -0,0 +1,89 @@
+// Coarse land outlines as [longitude, latitude] rings, bundled so the
+// sightings map works offline. Accurate to a few degrees: enough to see
+// where a sighting was, not for navigation.
+
+type Ring = [number, number][];
+
+const LAND: Ring[] = [
+  // North America
+  [[-168, 66], [-162, 70], [-141, 70], [-128, 70], [-115, 68], [-95, 72], [-82, 73], [-80, 63], [-92, 57], [-82, 52],
+   [-78, 56], [-65, 60], [-56, 52], [-60, 47], [-66, 44], [-70, 42], [-74, 40], [-76, 35], [-81, 31], [-80, 25],
+   [-83, 29], [-89, 30], [-94, 29], [-97, 26], [-97, 21], [-92, 18], [-87, 21], [-88, 16], [-83, 15], [-83, 10],
+   [-78, 8], [-80, 7], [-85, 10], [-92, 14], [-97, 16], [-105, 20], [-109, 23], [-112, 29], [-114, 31], [-110, 23],
+   [-115, 30], [-117, 32], [-121, 35], [-124, 40], [-124, 47], [-128, 51], [-135, 57], [-146, 61], [-153, 59],
+   [-158, 56], [-165, 55], [-160, 59], [-165, 61], [-166, 64]],
+  // Canadian Arctic
+  [[-65, 62], [-62, 67], [-72, 71], [-80, 73], [-88, 70], [-78, 65]],
+  [[-120, 70], [-100, 70], [-95, 75], [-80, 76], [-62, 82], [-90, 82], [-120, 76]],
+  // Greenland
+  [[-73, 78], [-60, 82], [-30, 83], [-20, 80], [-20, 72], [-25, 68], [-40, 65], [-43, 60], [-50, 62], [-53, 66],
+   [-55, 70], [-60, 76], [-70, 77]],
+  // Iceland
+  [[-24, 65], [-18, 66.5], [-14, 65], [-18, 63.5], [-22, 64]],
+  // Cuba
+  [[-85, 22], [-80, 23], [-74, 20], [-78, 20]],
+  // South America
+  [[-78, 8], [-72, 12], [-62, 10], [-52, 5], [-50, 0], [-44, -2], [-35, -5], [-35, -9], [-39, -13], [-40, -20],
+   [-45, -23], [-48, -26], [-53, -34], [-58, -35], [-57, -38], [-62, -39], [-65, -42], [-67, -46], [-69, -51],
+   [-68, -55], [-72, -53], [-75, -47], [-74, -40], [-73, -35], [-71, -30], [-70, -20], [-76, -14], [-81, -6],
+   [-80, -2], [-80, 1], [-77, 4]],
+  // Africa
+  [[-17, 21], [-13, 28], [-9, 32], [-6, 36], [10, 37], [11, 33], [20, 31], [25, 32], [32, 31], [35, 28], [38, 20],
+   [43, 12], [51, 12], [48, 5], [41, -2], [40, -10], [40, -16], [35, -22], [33, -27], [28, -33], [20, -35],
+   [18, -32], [15, -27], [12, -18], [14, -10], [12, -5], [9, -1], [10, 3], [7, 4], [1, 6], [-5, 5], [-8, 4],
+   [-13, 8], [-17, 13], [-17, 17]],
+  // Madagascar
+  [[44, -25], [47, -25], [50, -15], [49, -12], [44, -16], [43, -22]],
+  // Eurasia
+  [[-9, 37], [-9, 43], [-2, 43.5], [-1, 46], [-4, 48], [2, 51], [5, 53], [8, 54], [8, 57], [11, 58], [5, 59],
+   [5, 62], [14, 67], [20, 70], [28, 71], [40, 67], [44, 68], [55, 69], [60, 69], [70, 73], [80, 73], [100, 77],
+   [112, 74], [130, 71], [140, 72], [160, 70], [170, 70], [180, 68], [180, 65], [178, 62], [163, 60], [163, 56],
+   [156, 51], [156, 57], [142, 59], [135, 55], [141, 52], [140, 48], [133, 43], [129, 41], [129, 35], [126, 35],
+   [125, 38], [122, 40], [118, 38], [122, 37], [120, 33], [122, 30], [120, 25], [113, 22], [108, 21], [106, 18],
+   [109, 12], [105, 9], [103, 11], [100, 13], [99, 9], [101, 7], [104, 1.5], [101, 3], [98, 8], [98, 16], [94, 17],
+   [92, 22], [87, 22], [80, 15], [80, 10], [77, 8], [73, 17], [72, 21], [67, 25], [62, 25], [57, 26], [56, 27],
+   [52, 28], [48, 30], [50, 26], [53, 24], [56, 26], [59, 22], [56, 18], [52, 16], [45, 13], [43, 13], [39, 21],
+   [35, 28], [34, 31], [35, 33], [36, 36], [30, 36], [27, 37], [26, 40], [29, 41], [23, 40], [23, 36.5], [20, 40],
+   [19, 42], [13, 45.5], [12, 44], [16, 41], [16, 38], [10, 44], [7, 43.5], [3, 43], [3, 42], [0, 39], [-1, 37],
+   [-5, 36]],
+  // Great Britain and Ireland
+  [[-5, 50], [1, 51], [2, 53], [-2, 56], [-2, 58], [-5, 58.5], [-6, 56], [-5, 54], [-3, 54], [-4, 52]],
+  [[-10, 52], [-6, 52], [-6, 55], [-8, 55], [-10, 54]],
+  // Sri Lanka
+  [[80, 10], [82, 7], [81, 6], [80, 6]],
+  // Japan
+  [[130, 31], [132, 34], [136, 34], [140, 35], [141, 38], [142, 42], [145, 44], [141, 45], [140, 42], [139, 38],
+   [136, 37], [133, 35.5], [130, 33]],
+  // Taiwan
+  [[120, 22], [121, 25], [122, 25], [121, 22]],
+  // Philippines
+  [[120, 18], [122, 18], [124, 12], [126, 7], [122, 7], [120, 14]],
+  // Borneo, Sumatra, Java, New Guinea
+  [[109, 2], [113, 3], [117, 7], [119, 5], [118, 1], [116, -4], [111, -3], [109, -1]],
+  [[95, 5.5], [98, 4], [104, -2], [106, -6], [102, -4], [96, 3]],
+  [[106, -6], [114, -7], [114, -8.5], [106, -7]],
+  [[131, -1], [138, -2], [147, -6], [150, -10], [143, -9], [138, -8], [135, -4], [132, -3]],
+  // Australia
+  [[114, -22], [114, -34], [118, -35], [124, -33], [131, -31], [136, -35], [138, -34], [141, -38], [146, -39],
+   [150, -37], [153, -32], [153, -25], [146, -19], [145, -15], [142, -11], [141, -17], [136, -15], [136, -12],
+   [130, -11], [126, -14], [122, -17]],
+  // New Zealand
+  [[173, -35], [178, -38], [175, -41.5], [173, -39]],
+  [[172, -41], [174, -42], [171, -46], [167, -46], [168, -44]],
+  // Antarctica
+  [[-180, -72], [-120, -73], [-60, -64], [-57, -63], [-60, -70], [-30, -75], [0, -70], [60, -67], [120, -66],
+   [180, -72], [180, -90], [-180, -90]],
+];
+
+/**
+ * Equirectangular projection onto a 360 x 180 plane with the origin at 180°W, 90°N.
+ */
+export const project = (longitude: number, latitude: number): [number, number] => [longitude + 180, 90 - latitude];
+
+/** SVG path data for every land ring, in projected coordinates. */
+export const WORLD_LAND_PATH = LAND
+  .map(ring => ring.map(([lon, lat], idx) => {
+    const [x, y] = project(lon, lat);
+    return `${idx === 0 ? 'M' : 'L'}${x} ${y}`;
+  }).join('') + 'Z')
+  .join('');
@@ -1,3 +1,48 @@
+/** Linnaean ranks from kingdom down to species, as Latin names. */
+export interface Taxonomy {
+  kingdom: string;
+  phylum: string;
+  class: string;
+  order: string;
+  family: string;
+  genus: string;
+  /** Full binomial, e.g. "Vulpes vulpes". */
+  species: string;
+}
+
+// Units are Intl.NumberFormat unit identifiers, so they can be formatted in any locale
+export type LengthUnit = 'millimeter' | 'centimeter' | 'meter';
+export type MassUnit = 'gram' | 'kilogram';
+export type DurationUnit = 'day' | 'week' | 'month' | 'year';
+
+/** A typical adult range; `min` equals `max` for a single figure. */
+export interface Measurement<Unit extends string> {
+  min: number;
+  max: number;
+  unit: Unit;
+}
+
+export enum ActivityPattern {
+  DIURNAL = 'DIURNAL',
+  NOCTURNAL = 'NOCTURNAL',
+  CREPUSCULAR = 'CREPUSCULAR',
+  CATHEMERAL = 'CATHEMERAL'
+}
+
+/** IUCN Red List categories, plus a value for domestic animals the Red List doesn't assess. */
+export enum ConservationStatus {
+  EXTINCT = 'EX',
+  EXTINCT_IN_THE_WILD = 'EW',
+  CRITICALLY_ENDANGERED = 'CR',
+  ENDANGERED = 'EN',
+  VULNERABLE = 'VU',
+  NEAR_THREATENED = 'NT',
+  LEAST_CONCERN = 'LC',
+  DATA_DEFICIENT = 'DD',
+  NOT_EVALUATED = 'NE',
+  DOMESTICATED = 'DOMESTICATED'
+}
+
 export interface AnimalDetails {
   commonName: string;
   scientificName: string;
@@ -5,12 +50,209 @@ export interface AnimalDetails {
   habitat: string;
   diet: string;
   funFact: string;
-  conservationStatus: string;
+  conservationStatus: ConservationStatus;
+  // The fields below are missing from sightings saved before they were added
+  taxonomy?: Taxonomy;
+  /** Typical adult body length, or shell length for turtles. */
+  size?: Measurement<LengthUnit>;
+  weight?: Measurement<MassUnit>;
+  /** Typical lifespan in the wild. */
+  lifespan?: Measurement<DurationUnit>;
+  activityPattern?: ActivityPattern;
+  /** Regions where the species occurs naturally, e.g. "Southern Africa". */
+  nativeRange?: string[];
+}
+
+export interface IdentificationCandidate extends AnimalDetails {
+  /** Model confidence between 0 and 1. */
+  confidence: number;
+  /** Visual cues that set this candidate apart from the others. */
+  distinguishingFeatures: string[];
+}
+
+/** How much the native ranges of two species overlap. */
+export enum RangeOverlap {
+  NONE = 'NONE',
+  PARTIAL = 'PARTIAL',
+  EXTENSIVE = 'EXTENSIVE',
+}
+
+/** One aspect on which two animals differ, described for each of them. */
+export interface ComparisonPoint {
+  /** What is being compared, e.g. "Ear shape". */
+  aspect: string;
+  first: string;
+  second: string;
+}
+
+/** A structured answer to "how is this animal different from that one?". */
+export interface AnimalComparison {
+  /** How to tell the two apart at a glance. */
+  summary: string;
+  distinguishingFeatures: ComparisonPoint[];
+  /** How their sizes and builds differ; the figures themselves come from AnimalDetails. */
+  sizeDifference: string;
+  rangeOverlap: RangeOverlap;
+  /** Where their ranges meet, or what keeps them apart. */
+  rangeOverlapDetails: string;
+  dietDifferences: ComparisonPoint[];
+}
+
+export enum QuizQuestionType {
+  MULTIPLE_CHOICE = 'MULTIPLE_CHOICE',
+  TRUE_FALSE = 'TRUE_FALSE',
+}
+
+/** A question answerable from what identification found out about the animal. */
+export interface QuizQuestion {
+  type: QuizQuestionType;
+  question: string;
+  /** Answer choices; for TRUE_FALSE exactly "true" then "false", in the quiz language. */
+  options: string[];
+  /** Index into `options` of the right answer. */
+  correctIndex: number;
+  /** Why that answer is right, shown once the user has answered. */
+  explanation: string;
+}
+
+export interface Quiz {
+  questions: QuizQuestion[];
+}
+
+/** How a finished quiz went, kept with the sighting. */
+export interface QuizResult {
+  /** The animal the quiz was about; the sighting's candidate may change later. */
+  scientificName: string;
+  /** Epoch milliseconds when the last question was answered. */
+  completedAt: number;
+  score: number;
+  total: number;
+  /** Questions answered wrongly, to revisit later. */
+  missedQuestions: string[];
+}
+
+export enum IdentificationOutcome {
+  ANIMAL_FOUND = 'ANIMAL_FOUND',
+  NO_ANIMAL = 'NO_ANIMAL',
+  POOR_IMAGE_QUALITY = 'POOR_IMAGE_QUALITY',
+  MULTIPLE_ANIMALS = 'MULTIPLE_ANIMALS'
+}
+
+export interface IdentificationResult {
+  outcome: IdentificationOutcome;
+  /** Candidates ranked from most to least likely. Empty unless an animal was found. */
+  candidates: IdentificationCandidate[];
+  /** Short model explanation when no animal could be identified. */
+  issue?: string;
+}
+
+/** Box edges normalized to 0–1 relative to the image width and height. */
+export interface BoundingBox {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+export interface AnimalDetection {
+  box: BoundingBox;
+  /** Candidates for this animal, ranked from most to least likely. */
+  candidates: IdentificationCandidate[];
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Where and when a photo was taken, from EXIF or the device at capture time.
+ */
+export interface PhotoMetadata {
+  /** ISO 8601 timestamp. */
+  capturedAt?: string;
+  location?: GeoLocation;
+}
+
+export interface ImageSizeStats {
+  originalBytes: number;
+  processedBytes: number;
+}
+
+/** An inline image in a chat message, stored as base64 without the data URL prefix. */
+export interface ChatImage {
+  mimeType: string;
+  data: string;
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  images?: ChatImage[];
+  /** Transcribed from a voice session rather than typed. */
+  viaVoice?: boolean;
+  /**
+   * Set on a model reply that never completed: the user stopped it, the
+   * stream failed, or nothing came back. `text` holds only what arrived, and
+   * the turn is left out of the history replayed to the model.
+   */
+  incomplete?: 'stopped' | 'error' | 'empty';
+}
+
+/**
+ * A saved identification in the sighting journal.
+ */
+export interface Sighting {
+  id: string;
+  /** Epoch milliseconds of the identification. */
+  createdAt: number;
+  imageDataUrl: string;
+  thumbnailDataUrl: string;
+  /** The candidate the user settled on. */
+  animal: AnimalDetails;
+  candidates: IdentificationCandidate[];
+  messages: ChatMessage[];
+  metadata?: PhotoMetadata;
+  /** Finished quizzes, oldest first. */
+  quizResults?: QuizResult[];
+}
+
+export type PersonaPreset = 'zoologist' | 'kidGuide' | 'fieldBiologist' | 'parkRanger';
+
+/** How the AI zoologist sounds and speaks, shared by text chat and voice mode. */
+export interface AssistantSettings {
+  /** A Gemini prebuilt voice name, e.g. "Kore". */
+  voiceName: string;
+  /** BCP-47 code of the language to answer in, e.g. "en-US". Unset follows the interface locale. */
+  language?: string;
+  persona: PersonaPreset;
+}
+
+/** Interface language; AI-generated descriptions are requested in it too. */
+export type Locale = 'en' | 'es' | 'pt';
+
+/** Style presets for the generated gallery of the identified animal. */
+export enum ImageStyle {
+  HABITAT = 'HABITAT',
+  PORTRAIT = 'PORTRAIT',
+  SCIENTIFIC_ILLUSTRATION = 'SCIENTIFIC_ILLUSTRATION',
+  JUVENILE = 'JUVENILE',
+  RANGE_DIORAMA = 'RANGE_DIORAMA',
+}
+
+/** Edits the image model can make to the user's own photo. */
+export enum PhotoEditPreset {
+  NATURAL_HABITAT = 'NATURAL_HABITAT',
+  REMOVE_BACKGROUND = 'REMOVE_BACKGROUND',
+  JUVENILE_FORM = 'JUVENILE_FORM',
+  SIZE_COMPARISON = 'SIZE_COMPARISON',
+  CUSTOM = 'CUSTOM',
+}
+
+export interface PhotoEditRequest {
+  preset: PhotoEditPreset;
+  /** The user's own wording; required for CUSTOM and ignored otherwise. */
+  instruction?: string;
 }
 
 export interface GeneratedImage {
@@ -22,5 +264,9 @@ export enum AppState {
   UPLOAD = 'UPLOAD',
   ANALYZING = 'ANALYZING',
   RESULTS = 'RESULTS',
+  UNIDENTIFIED = 'UNIDENTIFIED',
+  JOURNAL = 'JOURNAL',
+  COMPARE = 'COMPARE',
+  QUIZ = 'QUIZ',
   ERROR = 'ERROR'
 }